@@ -33,6 +33,8 @@ export default [
         module: 'readonly',
         process: 'readonly',
         __dirname: 'readonly',
+        setTimeout: 'readonly',
+        clearTimeout: 'readonly',
         jest: 'readonly',
         describe: 'readonly',
         it: 'readonly',
@@ -0,0 +1,308 @@
+import { AsyncDequeOptions, IAsyncDeque, WaitOptions, Waiter } from '../interfaces/asyncdeque.interfaces';
+import { Deque } from './deque.class';
+
+/**
+ * AsyncDeque is a blocking double-ended queue for async producer/consumer pipelines.
+ * Items are stored in a ring-buffer `Deque`; `pop` and `popLeft` wait for an item to arrive
+ * when the deque is empty, and `push` and `pushLeft` wait for free space when `maxsize` is reached.
+ *
+ * @template T - The type of items in the deque.
+ * @example
+ * const queue = new AsyncDeque<string>({ maxsize: 100 });
+ *
+ * // producer
+ * await queue.push('job-1');
+ * queue.close();
+ *
+ * // consumer
+ * for await (const job of queue) {
+ *   console.log(job);
+ * }
+ */
+class AsyncDeque<T> implements IAsyncDeque<T> {
+   private readonly _items: Deque<T>;
+   private readonly _takers: Deque<Waiter<T, T>>;
+   private readonly _putters: Deque<Waiter<T, void>>;
+   private readonly _maxsize: number | undefined;
+   private _closed: boolean;
+
+   constructor(options: AsyncDequeOptions = {}) {
+      const { maxsize } = options;
+      if (maxsize !== undefined && (!Number.isInteger(maxsize) || maxsize <= 0)) {
+         throw new RangeError('maxsize must be a positive integer');
+      }
+
+      this._maxsize = maxsize;
+      this._items = new Deque<T>();
+      this._takers = new Deque<Waiter<T, T>>();
+      this._putters = new Deque<Waiter<T, void>>();
+      this._closed = false;
+   }
+
+   /**
+    * Gets the number of items currently in the deque.
+    */
+   get size(): number {
+      return this._items.size;
+   }
+
+   /**
+    * Gets whether the deque is empty.
+    */
+   get isEmpty(): boolean {
+      return this._items.isEmpty;
+   }
+
+   /**
+    * Gets the maximum number of items, or undefined if it is unbounded.
+    */
+   get maxsize(): number | undefined {
+      return this._maxsize;
+   }
+
+   /**
+    * Gets whether the deque has reached its maximum size.
+    */
+   get isFull(): boolean {
+      return this._maxsize !== undefined && this._items.size >= this._maxsize;
+   }
+
+   /**
+    * Gets whether the deque has been closed.
+    */
+   get isClosed(): boolean {
+      return this._closed;
+   }
+
+   /**
+    * Adds an item to the back of the deque, waiting for free space if the deque is full.
+    * @param item The item to add.
+    * @param options Optional `timeout` in milliseconds and `signal` to abort the wait.
+    * @returns A promise that resolves once the item has been added.
+    */
+   push(item: T, options: WaitOptions = {}): Promise<void> {
+      return this._put(item, false, options);
+   }
+
+   /**
+    * Adds an item to the front of the deque, waiting for free space if the deque is full.
+    * @param item The item to add.
+    * @param options Optional `timeout` in milliseconds and `signal` to abort the wait.
+    * @returns A promise that resolves once the item has been added.
+    */
+   pushLeft(item: T, options: WaitOptions = {}): Promise<void> {
+      return this._put(item, true, options);
+   }
+
+   /**
+    * Adds an item to the back of the deque without waiting.
+    * @param item The item to add.
+    * @returns True if the item was added, false if the deque is full.
+    * @throws {Error} If the deque is closed.
+    */
+   tryPush(item: T): boolean {
+      return this._offer(item, false);
+   }
+
+   /**
+    * Adds an item to the front of the deque without waiting.
+    * @param item The item to add.
+    * @returns True if the item was added, false if the deque is full.
+    * @throws {Error} If the deque is closed.
+    */
+   tryPushLeft(item: T): boolean {
+      return this._offer(item, true);
+   }
+
+   /**
+    * Removes and returns the item at the back of the deque, waiting for one to arrive if it is empty.
+    * @param options Optional `timeout` in milliseconds and `signal` to abort the wait.
+    * @returns A promise that resolves with the item, or rejects if the deque is closed while empty.
+    */
+   pop(options: WaitOptions = {}): Promise<T> {
+      return this._take(false, options);
+   }
+
+   /**
+    * Removes and returns the item at the front of the deque, waiting for one to arrive if it is empty.
+    * @param options Optional `timeout` in milliseconds and `signal` to abort the wait.
+    * @returns A promise that resolves with the item, or rejects if the deque is closed while empty.
+    */
+   popLeft(options: WaitOptions = {}): Promise<T> {
+      return this._take(true, options);
+   }
+
+   /**
+    * Removes and returns the item at the back of the deque without waiting.
+    * @returns The item, or undefined if the deque is empty.
+    */
+   tryPop(): T | undefined {
+      return this._poll(false);
+   }
+
+   /**
+    * Removes and returns the item at the front of the deque without waiting.
+    * @returns The item, or undefined if the deque is empty.
+    */
+   tryPopLeft(): T | undefined {
+      return this._poll(true);
+   }
+
+   /**
+    * Closes the deque. Pending pushes and pops are rejected and no new items are accepted,
+    * but items already in the deque can still be popped.
+    */
+   close(): void {
+      if (this._closed) return;
+      this._closed = true;
+
+      const error = new Error('AsyncDeque is closed');
+      let waiter: Waiter<T, unknown> | undefined;
+      while ((waiter = this._takers.popLeft())) waiter.reject(error);
+      while ((waiter = this._putters.popLeft())) waiter.reject(error);
+   }
+
+   /**
+    * Removes all items from the deque, letting waiting producers proceed.
+    */
+   clear(): void {
+      this._items.clear();
+      this._admitPutters();
+   }
+
+   /**
+    * Converts the deque to an array without removing any items.
+    * @returns An array containing all items in the deque.
+    */
+   toArray(): T[] {
+      return this._items.toArray();
+   }
+
+   /**
+    * Consumes items from the front of the deque as they arrive, until it is closed and drained.
+    */
+   async *[Symbol.asyncIterator](): AsyncIterableIterator<T> {
+      while (!this._closed || !this._items.isEmpty) {
+         let item: T;
+         try {
+            item = await this.popLeft();
+         } catch (error) {
+            if (this._closed && this._items.isEmpty) return;
+            throw error;
+         }
+         yield item;
+      }
+   }
+
+   private _put(item: T, left: boolean, options: WaitOptions): Promise<void> {
+      if (this._closed) {
+         return Promise.reject(new Error('AsyncDeque is closed'));
+      }
+      if (this._offer(item, left)) {
+         return Promise.resolve();
+      }
+      return this._wait(this._putters, { item, left }, options);
+   }
+
+   private _take(left: boolean, options: WaitOptions): Promise<T> {
+      if (!this._items.isEmpty) {
+         return Promise.resolve(this._poll(left) as T);
+      }
+      if (this._closed) {
+         return Promise.reject(new Error('AsyncDeque is closed'));
+      }
+      return this._wait(this._takers, {}, options);
+   }
+
+   /**
+    * Hands the item to a waiting consumer, or stores it if there is room.
+    */
+   private _offer(item: T, left: boolean): boolean {
+      if (this._closed) {
+         throw new Error('AsyncDeque is closed');
+      }
+
+      const taker = this._takers.popLeft();
+      if (taker) {
+         taker.resolve(item);
+         return true;
+      }
+
+      if (this.isFull) return false;
+
+      if (left) {
+         this._items.pushLeft(item);
+      } else {
+         this._items.push(item);
+      }
+      return true;
+   }
+
+   /**
+    * Removes an item from one end and lets waiting producers fill the freed space.
+    */
+   private _poll(left: boolean): T | undefined {
+      if (this._items.isEmpty) return undefined;
+      const item = left ? this._items.popLeft() : this._items.pop();
+      this._admitPutters();
+      return item;
+   }
+
+   private _admitPutters(): void {
+      while (!this.isFull && !this._putters.isEmpty) {
+         const putter = this._putters.popLeft() as Waiter<T, void>;
+         if (putter.left) {
+            this._items.pushLeft(putter.item as T);
+         } else {
+            this._items.push(putter.item as T);
+         }
+         putter.resolve();
+      }
+   }
+
+   /**
+    * Registers a waiter in the given queue, removing it again on timeout or abort.
+    */
+   private _wait<R>(queue: Deque<Waiter<T, R>>, payload: Partial<Waiter<T, R>>, options: WaitOptions): Promise<R> {
+      const { timeout, signal } = options;
+
+      return new Promise<R>((resolve, reject) => {
+         if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+         }
+
+         let timer: ReturnType<typeof setTimeout> | undefined;
+         const cleanup = (): void => {
+            if (timer !== undefined) clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+         };
+         const waiter: Waiter<T, R> = {
+            ...payload,
+            resolve: (value: R): void => {
+               cleanup();
+               resolve(value);
+            },
+            reject: (reason: unknown): void => {
+               cleanup();
+               reject(reason);
+            },
+         };
+         const onAbort = (): void => {
+            queue.remove(waiter);
+            waiter.reject(signal?.reason);
+         };
+
+         if (timeout !== undefined) {
+            timer = setTimeout(() => {
+               queue.remove(waiter);
+               waiter.reject(new Error(`AsyncDeque wait timed out after ${timeout}ms`));
+            }, timeout);
+         }
+         signal?.addEventListener('abort', onAbort, { once: true });
+         queue.push(waiter);
+      });
+   }
+}
+
+export { AsyncDeque };
@@ -0,0 +1,313 @@
+import { WaitOptions, Waiter } from '../interfaces/asyncdeque.interfaces';
+import {
+   DelayedItem,
+   DelayEntry,
+   DelayQueueOptions,
+   DelayStore,
+   IDelayQueue,
+} from '../interfaces/delayqueue.interfaces';
+import { Deque } from './deque.class';
+import { IndexedHeap } from './heap.class';
+import { TimerWheel } from './timerwheel.class';
+
+/**
+ * The default `'heap'` backend of `DelayQueue`: an `IndexedHeap` ordered by due time,
+ * stable so that entries due at the same time are released in insertion order.
+ */
+class HeapDelayStore<T> implements DelayStore<T> {
+   private readonly _heap = new IndexedHeap<DelayEntry<T>>({ key: (entry): number => entry.dueAt, stable: true });
+
+   get size(): number {
+      return this._heap.size;
+   }
+
+   get nextDueAt(): number | undefined {
+      return this._heap.peek()?.dueAt;
+   }
+
+   add(entry: DelayEntry<T>): void {
+      entry.handle = this._heap.push(entry);
+   }
+
+   delete(entry: DelayEntry<T>): boolean {
+      return entry.handle !== undefined && this._heap.remove(entry.handle);
+   }
+
+   shift(now: number): DelayEntry<T> | undefined {
+      const first = this._heap.peek();
+      return first !== undefined && first.dueAt <= now ? this._heap.pop() : undefined;
+   }
+
+   clear(): void {
+      this._heap.clear();
+   }
+
+   values(): IterableIterator<DelayEntry<T>> {
+      return this._heap.values();
+   }
+}
+
+/**
+ * DelayQueue holds items until their due time, for retry backoff, TTL expiry and similar
+ * "release this item at time T" jobs. `poll()` returns the items that are already due,
+ * and `take()` waits for the next one.
+ *
+ * Time comes from the `clock` option (default `Date.now`), which keeps `poll()` deterministic in tests.
+ * `take()` waits with `setTimeout`, so it needs a clock that advances with timers, such as
+ * `Date.now` under fake timers.
+ *
+ * Two backends are available: the default `'heap'` keeps exact due order in an `IndexedHeap`, and
+ * `'wheel'` is a hierarchical timer wheel with O(1) insertion and cancellation for very large numbers of
+ * timers, which rounds due times up to `tickMs`.
+ *
+ * @template T - The type of items in the queue.
+ * @example
+ * const retries = new DelayQueue<Job>();
+ * retries.push(job, 2 ** attempt * 100);
+ *
+ * for (;;) {
+ *   const job = await retries.take();
+ *   run(job);
+ * }
+ */
+class DelayQueue<T> implements IDelayQueue<T> {
+   private readonly _store: DelayStore<T>;
+   private readonly _clock: () => number;
+   private readonly _tickMs: number | undefined;
+   private readonly _takers = new Deque<Waiter<T, T>>();
+   private _timer: ReturnType<typeof setTimeout> | undefined;
+   private _timerDueAt: number | undefined;
+   private _sequence = 0;
+
+   private static readonly MAX_TIMEOUT = 2 ** 31 - 1; // The longest delay setTimeout accepts
+
+   /**
+    * Creates a new delay queue.
+    * @param options Optional `clock`, `backend` (`'heap'` or `'wheel'`), and for the wheel
+    *                `tickMs` (default 1), `wheelSize` slots per level (default 64) and `wheelLevels` (default 4).
+    * @throws {RangeError} If a wheel option is out of range.
+    * @throws {TypeError} If the backend is unknown.
+    */
+   constructor(options: DelayQueueOptions = {}) {
+      const { clock = Date.now, backend = 'heap', tickMs = 1, wheelSize = 64, wheelLevels = 4 } = options;
+      this._clock = clock;
+
+      if (backend === 'heap') {
+         this._store = new HeapDelayStore<T>();
+      } else if (backend === 'wheel') {
+         if (!Number.isFinite(tickMs) || tickMs <= 0) {
+            throw new RangeError('tickMs must be a positive number');
+         }
+         if (!Number.isInteger(wheelSize) || wheelSize < 2) {
+            throw new RangeError('wheelSize must be an integer of at least 2');
+         }
+         if (!Number.isInteger(wheelLevels) || wheelLevels < 1) {
+            throw new RangeError('wheelLevels must be a positive integer');
+         }
+         this._tickMs = tickMs;
+         this._store = new TimerWheel<T>(tickMs, wheelSize, wheelLevels, clock());
+      } else {
+         throw new TypeError(`Unknown DelayQueue backend: ${backend}`);
+      }
+   }
+
+   /**
+    * Gets the number of items in the queue, due or not.
+    */
+   get size(): number {
+      return this._store.size;
+   }
+
+   /**
+    * Gets whether the queue is empty.
+    */
+   get isEmpty(): boolean {
+      return this._store.size === 0;
+   }
+
+   /**
+    * Gets the due time of the next item, or undefined if the queue is empty.
+    */
+   get nextDueAt(): number | undefined {
+      return this._store.nextDueAt;
+   }
+
+   /**
+    * Adds an item that becomes due after a delay.
+    * @param item The item to add.
+    * @param delay The delay in milliseconds (default 0).
+    * @returns A handle with the item and its due time, for `cancel()`.
+    * @throws {RangeError} If the delay is not a finite number.
+    */
+   push(item: T, delay: number = 0): DelayedItem<T> {
+      if (!Number.isFinite(delay)) {
+         throw new RangeError('delay must be a finite number');
+      }
+      return this.pushAt(item, this._clock() + delay);
+   }
+
+   /**
+    * Adds an item that becomes due at the given time.
+    * @param item The item to add.
+    * @param dueAt The due time, on the same scale as the clock.
+    * @returns A handle with the item and its due time, for `cancel()`.
+    * @throws {RangeError} If the due time is not a finite number.
+    */
+   pushAt(item: T, dueAt: number): DelayedItem<T> {
+      if (!Number.isFinite(dueAt)) {
+         throw new RangeError('dueAt must be a finite number');
+      }
+      if (this._tickMs !== undefined) {
+         dueAt = Math.ceil(dueAt / this._tickMs) * this._tickMs;
+      }
+
+      const entry: DelayEntry<T> = { item, dueAt, sequence: this._sequence++ };
+      this._store.add(entry);
+      this._release();
+      return entry;
+   }
+
+   /**
+    * Removes an item before it is released.
+    * @param handle The handle returned by `push` or `pushAt`.
+    * @returns True if the item was removed, false if it was already released or cancelled.
+    */
+   cancel(handle: DelayedItem<T>): boolean {
+      const removed = this._store.delete(handle as DelayEntry<T>);
+      if (removed) this._schedule();
+      return removed;
+   }
+
+   /**
+    * Removes and returns every item whose due time has passed, in due order.
+    * @param now The current time (default is the current clock time).
+    * @returns The due items, possibly none.
+    */
+   poll(now: number = this._clock()): T[] {
+      const result: T[] = [];
+      let entry: DelayEntry<T> | undefined;
+      while ((entry = this._store.shift(now))) {
+         result.push(entry.item);
+      }
+      this._schedule();
+      return result;
+   }
+
+   /**
+    * Removes and returns the next item, waiting until it is due.
+    * Concurrent `take()` calls are served in call order.
+    * @param options Optional `timeout` in milliseconds and `signal` to abort the wait.
+    * @returns A promise that resolves with the item.
+    */
+   take(options: WaitOptions = {}): Promise<T> {
+      if (this._takers.isEmpty) {
+         const entry = this._store.shift(this._clock());
+         if (entry) return Promise.resolve(entry.item);
+      }
+      const promise = this._wait(options);
+      this._schedule();
+      return promise;
+   }
+
+   /**
+    * Removes all items. Pending `take()` calls keep waiting for new items.
+    */
+   clear(): void {
+      this._store.clear();
+      this._schedule();
+   }
+
+   /**
+    * Copies the items to an array in due order, without removing them.
+    */
+   toArray(): T[] {
+      return [...this._store.values()].sort((a, b) => a.dueAt - b.dueAt || a.sequence - b.sequence).map(e => e.item);
+   }
+
+   [Symbol.iterator](): IterableIterator<T> {
+      return this.toArray()[Symbol.iterator]();
+   }
+
+   /**
+    * Hands due items to waiting takers, then re-arms the timer.
+    */
+   private _release(): void {
+      if (!this._takers.isEmpty) {
+         const now = this._clock();
+         let entry: DelayEntry<T> | undefined;
+         while (!this._takers.isEmpty && (entry = this._store.shift(now))) {
+            (this._takers.popLeft() as Waiter<T, T>).resolve(entry.item);
+         }
+      }
+      this._schedule();
+   }
+
+   /**
+    * Arms a timer for the next due time while someone is waiting in `take()`.
+    * Delays beyond what `setTimeout` accepts are capped; the timer then fires early and re-arms for the rest.
+    */
+   private _schedule(): void {
+      const dueAt = this._takers.isEmpty ? undefined : this._store.nextDueAt;
+      if (dueAt === this._timerDueAt) return;
+
+      if (this._timer !== undefined) clearTimeout(this._timer);
+      this._timer = undefined;
+      this._timerDueAt = dueAt;
+      if (dueAt === undefined) return;
+
+      this._timer = setTimeout(
+         () => {
+            this._timer = this._timerDueAt = undefined;
+            this._release();
+         },
+         Math.min(Math.max(0, dueAt - this._clock()), DelayQueue.MAX_TIMEOUT)
+      );
+   }
+
+   /**
+    * Registers a taker, removing it again on timeout or abort.
+    */
+   private _wait(options: WaitOptions): Promise<T> {
+      const { timeout, signal } = options;
+
+      return new Promise<T>((resolve, reject) => {
+         if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+         }
+
+         let timer: ReturnType<typeof setTimeout> | undefined;
+         const cleanup = (): void => {
+            if (timer !== undefined) clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+         };
+         const waiter: Waiter<T, T> = {
+            resolve: (value: T): void => {
+               cleanup();
+               resolve(value);
+            },
+            reject: (reason: unknown): void => {
+               cleanup();
+               reject(reason);
+            },
+         };
+         const onAbort = (): void => {
+            this._takers.remove(waiter);
+            this._schedule();
+            waiter.reject(signal?.reason);
+         };
+
+         if (timeout !== undefined) {
+            timer = setTimeout(() => {
+               this._takers.remove(waiter);
+               this._schedule();
+               waiter.reject(new Error(`DelayQueue wait timed out after ${timeout}ms`));
+            }, timeout);
+         }
+         signal?.addEventListener('abort', onAbort, { once: true });
+         this._takers.push(waiter);
+      });
+   }
+}
+
+export { DelayQueue };
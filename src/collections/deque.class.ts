@@ -1,35 +1,103 @@
-import { IDeque } from '../interfaces/deque.interfaces';
-import { MapCallback } from '../types';
+import { DequeOptions, IDeque, IDequeView } from '../interfaces/deque.interfaces';
+import { EvictCallback, MapCallback, ReduceCallback } from '../types';
+import { ConcurrentModificationError, isIterable, len, pow2AtLeast } from '../utils';
+import { DequeView } from './dequeview.class';
 
 class Deque<T> implements IDeque<T> {
    private _capacity: number;
+   private _minCapacity: number;
    private _length: number;
    private _front: number;
    private buffer: (T | undefined)[];
+   private readonly _maxlen: number | undefined;
+   private readonly _onEvict: EvictCallback<T> | undefined;
+   private readonly _failFast: boolean;
+   private _modCount = 0;
 
    private static readonly MIN_CAPACITY = 16;
    private static readonly MAX_CAPACITY = 1 << 30; // 2^30
    private static readonly GROWTH_FACTOR = 1.5;
    private static readonly GROWTH_CONSTANT = 16;
+   private static readonly SHRINK_THRESHOLD = 0.25;
 
-   constructor(capacity: number | T[] = Deque.MIN_CAPACITY) {
-      this._capacity = this._getCapacity(capacity);
+   /**
+    * Creates a new deque.
+    * @param capacity The initial capacity hint, an iterable of initial items, or an options object.
+    * @param options Optional `maxlen` bound and `onEvict` callback for items dropped on overflow.
+    */
+   constructor(capacity: number | Iterable<T> | DequeOptions<T> = Deque.MIN_CAPACITY, options: DequeOptions<T> = {}) {
+      let items: Iterable<T> | undefined;
+      if (typeof capacity == 'number') {
+         capacity = options.capacity ?? capacity;
+         items = options.items;
+      } else if (isIterable(capacity)) {
+         items = capacity;
+         capacity = options.capacity ?? Deque.MIN_CAPACITY;
+      } else {
+         options = capacity;
+         items = options.items;
+         capacity = options.capacity ?? Deque.MIN_CAPACITY;
+      }
+
+      const { maxlen, onEvict, failFast = true } = options;
+      if (maxlen !== undefined && (!Number.isInteger(maxlen) || maxlen < 0)) {
+         throw new RangeError('maxlen must be a non-negative integer');
+      }
+
+      this._maxlen = maxlen;
+      this._onEvict = onEvict;
+      this._failFast = failFast;
+      this._minCapacity = this._getCapacity(capacity);
+      this._capacity = this._getCapacity(items ? Math.max(capacity, len(items) ?? 0) : capacity);
       this._length = 0;
       this._front = 0;
       this.buffer = new Array<T | undefined>(this._capacity);
 
-      if (Array.isArray(capacity)) {
-         const len = capacity.length;
-         for (let i = 0; i < len; i++) {
-            this.buffer[i] = capacity[i];
+      if (Array.isArray(items) && (maxlen === undefined || items.length <= maxlen)) {
+         const length = items.length;
+         for (let i = 0; i < length; i++) {
+            this.buffer[i] = items[i];
          }
-         this._length = len;
+         this._length = length;
+      } else if (items) {
+         this.extend(items);
       }
    }
+
    static of<T>(...items: T[]): IDeque<T> {
       return new Deque<T>(items);
    }
 
+   /**
+    * Creates a new deque from an iterable or array-like object, like `Array.from`.
+    * @param source The iterable or array-like object to copy items from.
+    * @param mapFn An optional function called on every item before it is added.
+    * @returns A new deque containing the (mapped) items.
+    */
+   static from<T, U = T>(source: Iterable<T> | ArrayLike<T>, mapFn?: MapCallback<T, U>): Deque<U> {
+      const result = new Deque<U>(len(source as Iterable<T>) ?? Deque.MIN_CAPACITY);
+      let index = 0;
+      if (isIterable(source)) {
+         for (const item of source) {
+            result.push(mapFn ? mapFn(item, index++) : (item as unknown as U));
+         }
+      } else {
+         for (; index < source.length; index++) {
+            result.push(mapFn ? mapFn(source[index], index) : (source[index] as unknown as U));
+         }
+      }
+      return result;
+   }
+
+   /**
+    * Checks if the given value is a deque.
+    * @param value The value to check.
+    * @returns True if the value is a Deque instance, false otherwise.
+    */
+   static isDeque<T>(value: unknown): value is Deque<T> {
+      return value instanceof Deque;
+   }
+
    /**
     * Gets whether the deque is empty.
     */
@@ -44,29 +112,69 @@ class Deque<T> implements IDeque<T> {
       return this._length;
    }
 
+   /**
+    * Gets the maximum length of the deque, or undefined if it is unbounded.
+    */
+   get maxlen(): number | undefined {
+      return this._maxlen;
+   }
+
+   /**
+    * Gets whether the deque has reached its maximum length.
+    * An unbounded deque is never full.
+    */
+   get isFull(): boolean {
+      return this._maxlen !== undefined && this._length >= this._maxlen;
+   }
+
+   /**
+    * Gets the number of slots in the internal buffer.
+    */
+   get capacity(): number {
+      return this._capacity;
+   }
+
    /**
     * Adds an item to the back of the deque.
+    * If the deque is full, the item at the front is evicted first.
     * @param item The item to add.
     * @returns The deque instance.
     */
    push(item: T): this {
+      if (this.isFull) {
+         if (this._length === 0) {
+            this._evict(item);
+            return this;
+         }
+         this._evict(this.popLeft() as T);
+      }
       this._checkCapacity(this._length + 1);
       const index = (this._front + this._length) & (this._capacity - 1);
       this.buffer[index] = item;
       this._length++;
+      this._modCount++;
       return this;
    }
 
    /**
     * Adds an item to the front of the deque.
+    * If the deque is full, the item at the back is evicted first.
     * @param item The item to add.
     * @returns The deque instance.
     */
    pushLeft(item: T): this {
+      if (this.isFull) {
+         if (this._length === 0) {
+            this._evict(item);
+            return this;
+         }
+         this._evict(this.pop() as T);
+      }
       this._checkCapacity(this._length + 1);
       this._front = this._decrementIndex(this._front);
       this.buffer[this._front] = item;
       this._length++;
+      this._modCount++;
       return this;
    }
 
@@ -80,6 +188,8 @@ class Deque<T> implements IDeque<T> {
       const item = this.buffer[index];
       this.buffer[index] = undefined;
       this._length--;
+      this._modCount++;
+      this._checkShrink();
       return item;
    }
 
@@ -93,6 +203,8 @@ class Deque<T> implements IDeque<T> {
       this.buffer[this._front] = undefined;
       this._front = (this._front + 1) & (this._capacity - 1);
       this._length--;
+      this._modCount++;
+      this._checkShrink();
       return item;
    }
 
@@ -142,12 +254,217 @@ class Deque<T> implements IDeque<T> {
       return this;
    }
 
+   /**
+    * Inserts an item at the specified index, shifting whichever side of the deque is shorter.
+    * Negative indices count back from the end; out-of-range indices are clamped to the ends.
+    * @param index The position to insert the item at.
+    * @param item The item to insert.
+    * @returns The deque instance.
+    * @throws {RangeError} If the index is not an integer or the deque is full.
+    * @complexity O(min(i, n - i))
+    */
+   insert(index: number, item: T): this {
+      if (!Number.isInteger(index)) {
+         throw new RangeError('Index must be an integer');
+      }
+      if (this.isFull) {
+         throw new RangeError('Cannot insert into a full deque');
+      }
+
+      if (index < 0) {
+         index = Math.max(0, this._length + index);
+      } else if (index > this._length) {
+         index = this._length;
+      }
+
+      this._checkCapacity(this._length + 1);
+      const mask = this._capacity - 1;
+
+      if (index <= this._length - index) {
+         this._front = this._decrementIndex(this._front);
+         for (let i = 0; i < index; i++) {
+            this.buffer[(this._front + i) & mask] = this.buffer[(this._front + i + 1) & mask];
+         }
+      } else {
+         for (let i = this._length; i > index; i--) {
+            this.buffer[(this._front + i) & mask] = this.buffer[(this._front + i - 1) & mask];
+         }
+      }
+
+      this.buffer[(this._front + index) & mask] = item;
+      this._length++;
+      this._modCount++;
+      return this;
+   }
+
+   /**
+    * Removes and returns the item at the specified index, shifting whichever side of the deque is shorter.
+    * For negative indices, it counts back from the end.
+    * @param index The index of the item to remove.
+    * @returns The removed item, or undefined if the index is out of bounds.
+    * @complexity O(min(i, n - i))
+    */
+   removeAt(index: number): T | undefined {
+      if (!Number.isInteger(index) || this.isEmpty) return undefined;
+
+      if (index < 0) {
+         index = this._length + index;
+      }
+
+      if (index < 0 || index >= this._length) {
+         return undefined;
+      }
+
+      const mask = this._capacity - 1;
+      const item = this.buffer[(this._front + index) & mask];
+
+      if (index < this._length - 1 - index) {
+         for (let i = index; i > 0; i--) {
+            this.buffer[(this._front + i) & mask] = this.buffer[(this._front + i - 1) & mask];
+         }
+         this.buffer[this._front] = undefined;
+         this._front = (this._front + 1) & mask;
+      } else {
+         for (let i = index; i < this._length - 1; i++) {
+            this.buffer[(this._front + i) & mask] = this.buffer[(this._front + i + 1) & mask];
+         }
+         this.buffer[(this._front + this._length - 1) & mask] = undefined;
+      }
+
+      this._length--;
+      this._modCount++;
+      this._checkShrink();
+      return item;
+   }
+
+   /**
+    * Removes the first occurrence of the specified item.
+    * @param item The item to remove.
+    * @returns True if the item was found and removed, false otherwise.
+    */
+   remove(item: T): boolean {
+      const index = this.indexOf(item);
+      if (index === -1) return false;
+      this.removeAt(index);
+      return true;
+   }
+
+   /**
+    * Removes items and/or inserts new ones in place, as with `Array.prototype.splice`.
+    * Whichever side of the deque is shorter is shifted to close or open the gap.
+    * @param start The index to start at. Negative indices count back from the end.
+    * @param deleteCount The number of items to remove (default is every item from `start` on).
+    * @param items The items to insert at `start`.
+    * @returns An array containing the removed items.
+    * @throws {RangeError} If the result would exceed `maxlen`.
+    * @complexity O(k + min(start, n - start)), where k is the number of items removed and inserted
+    */
+   splice(start: number, deleteCount?: number, ...items: T[]): T[] {
+      start = Math.trunc(start) || 0;
+      start = start < 0 ? Math.max(0, this._length + start) : Math.min(start, this._length);
+      deleteCount =
+         arguments.length < 2
+            ? this._length - start
+            : Math.min(Math.max(0, Math.trunc(deleteCount as number) || 0), this._length - start);
+
+      if (this._maxlen !== undefined && this._length - deleteCount + items.length > this._maxlen) {
+         throw new RangeError('Cannot splice beyond the deque maxlen');
+      }
+
+      const removed = new Array<T>(deleteCount);
+      for (let i = 0; i < deleteCount; i++) {
+         removed[i] = this.buffer[(this._front + start + i) & (this._capacity - 1)] as T;
+      }
+      if (deleteCount > 0 || items.length > 0) {
+         this._replaceRange(start, deleteCount, items);
+      }
+      return removed;
+   }
+
+   /**
+    * Removes the items between `start` and `end` (exclusive) without collecting them.
+    * Negative indices count back from the end, as with `slice`.
+    * @param start The index to start at (default is 0).
+    * @param end The index to end before (default is the size of the deque).
+    * @returns The number of items removed.
+    */
+   removeRange(start: number = 0, end: number = this._length): number {
+      start = start < 0 ? Math.max(0, this._length + start) : Math.min(start, this._length);
+      end = end < 0 ? Math.max(0, this._length + end) : Math.min(end, this._length);
+
+      const count = Math.max(0, end - start);
+      if (count > 0) {
+         this._replaceRange(start, count, []);
+      }
+      return count;
+   }
+
+   /**
+    * Removes up to `n` items from the front of the deque and returns them in a single array.
+    * The items are copied out in at most two contiguous chunks.
+    * @param n The maximum number of items to remove (default is all of them).
+    * @returns An array containing the removed items, from front to back.
+    * @throws {RangeError} If `n` is not a non-negative integer.
+    */
+   drain(n: number = this._length): T[] {
+      if (!Number.isInteger(n) || n < 0) {
+         throw new RangeError('n must be a non-negative integer');
+      }
+
+      const count = Math.min(n, this._length);
+      const result = new Array<T>(count);
+      if (count === 0) return result;
+
+      const first = this._copyOut(result, 0, count);
+      this.buffer.fill(undefined, this._front, this._front + first);
+      this.buffer.fill(undefined, 0, count - first);
+      this._front = (this._front + count) & (this._capacity - 1);
+      this._length -= count;
+      this._modCount++;
+      this._checkShrink();
+      return result;
+   }
+
+   /**
+    * Copies every item of the deque into an existing array, in at most two contiguous chunks.
+    * @param target The array to copy into.
+    * @param offset The index in `target` to start writing at (default is 0).
+    * @returns The target array.
+    * @throws {RangeError} If `offset` is not a non-negative integer.
+    */
+   copyTo(target: T[], offset: number = 0): T[] {
+      if (!Number.isInteger(offset) || offset < 0) {
+         throw new RangeError('offset must be a non-negative integer');
+      }
+      this._copyOut(target, offset, this._length);
+      return target;
+   }
+
+   /**
+    * Counts the number of occurrences of the specified item.
+    * @param item The item to count.
+    * @returns The number of elements strictly equal to the item.
+    */
+   count(item: T): number {
+      let result = 0;
+      for (let i = 0; i < this._length; i++) {
+         const index = (this._front + i) & (this._capacity - 1);
+         if (this.buffer[index] === item) {
+            result++;
+         }
+      }
+      return result;
+   }
+
    /**
     * Adds multiple elements to the back of the deque.
     * @param elements The elements to add.
     * @returns The deque instance.
     */
    extend(elements: Iterable<T>): this {
+      if (elements === this) {
+         elements = this.toArray();
+      }
       for (const item of elements) {
          this.push(item);
       }
@@ -160,6 +477,9 @@ class Deque<T> implements IDeque<T> {
     * @returns The deque instance.
     */
    extendLeft(elements: Iterable<T>): this {
+      if (elements === this) {
+         elements = this.toArray();
+      }
       for (const item of elements) {
          this.pushLeft(item);
       }
@@ -204,13 +524,90 @@ class Deque<T> implements IDeque<T> {
       return this.indexOf(item, fromIndex) !== -1;
    }
 
+   /**
+    * Rotates the deque `n` steps to the right. If `n` is negative, rotates to the left.
+    * Only `min(k, size - k)` elements are moved, where `k` is `n` modulo the size.
+    * @param n The number of steps to rotate (default is 1).
+    * @returns The deque instance.
+    */
+   rotate(n: number = 1): this {
+      if (!Number.isInteger(n)) {
+         throw new RangeError('Rotation steps must be an integer');
+      }
+
+      const length = this._length;
+      if (length <= 1) return this;
+
+      const k = ((n % length) + length) % length;
+      if (k === 0) return this;
+      this._modCount++;
+
+      const mask = this._capacity - 1;
+      if (length === this._capacity) {
+         this._front = (this._front + length - k) & mask;
+         return this;
+      }
+
+      if (k <= length - k) {
+         for (let i = 0; i < k; i++) {
+            const back = (this._front + length - 1) & mask;
+            this._front = this._decrementIndex(this._front);
+            this.buffer[this._front] = this.buffer[back];
+            this.buffer[back] = undefined;
+         }
+      } else {
+         for (let i = 0; i < length - k; i++) {
+            const back = (this._front + length) & mask;
+            this.buffer[back] = this.buffer[this._front];
+            this.buffer[this._front] = undefined;
+            this._front = (this._front + 1) & mask;
+         }
+      }
+      return this;
+   }
+
+   /**
+    * Shrinks the internal buffer to the smallest capacity that holds the current items.
+    * Also lowers the capacity floor set by the constructor or `ensureCapacity`.
+    * @returns The deque instance.
+    */
+   trimToSize(): this {
+      this._minCapacity = Deque.MIN_CAPACITY;
+      const newCapacity = this._getCapacity(this._length);
+      if (newCapacity < this._capacity) {
+         this._resizeTo(newCapacity);
+      }
+      return this;
+   }
+
+   /**
+    * Grows the internal buffer so it can hold at least `n` items without reallocating.
+    * The buffer will not shrink automatically below this capacity.
+    * @param n The number of items to make room for.
+    * @returns The deque instance.
+    * @throws {RangeError} If `n` exceeds the maximum capacity.
+    */
+   ensureCapacity(n: number): this {
+      if (n > Deque.MAX_CAPACITY) {
+         throw new RangeError(`Deque capacity exceeds maximum limit of ${Deque.MAX_CAPACITY}`);
+      }
+      const newCapacity = this._getCapacity(n);
+      this._minCapacity = Math.max(this._minCapacity, newCapacity);
+      if (newCapacity > this._capacity) {
+         this._resizeTo(newCapacity);
+      }
+      return this;
+   }
+
    /**
     * Clears the deque.
     */
    clear(): void {
-      this.buffer.fill(undefined);
+      this.buffer = new Array<T | undefined>(this._minCapacity);
+      this._capacity = this._minCapacity;
       this._length = 0;
       this._front = 0;
+      this._modCount++;
    }
 
    /**
@@ -226,31 +623,50 @@ class Deque<T> implements IDeque<T> {
       return result;
    }
 
+   /**
+    * Returns an iterable of [index, item] pairs.
+    * @throws {ConcurrentModificationError} If the deque is structurally modified during iteration.
+    */
    *entries(): IterableIterator<[number, T]> {
+      const expected = this._modCount;
       for (let i = 0; i < this._length; i++) {
          const index = (this._front + i) & (this._capacity - 1);
          yield [i, this.buffer[index] as T];
+         this._checkModification(expected);
       }
    }
 
+   /**
+    * Returns an iterable of the indices in the deque.
+    * @throws {ConcurrentModificationError} If the deque is structurally modified during iteration.
+    */
    *keys(): IterableIterator<number> {
+      const expected = this._modCount;
       for (let i = 0; i < this._length; i++) {
          yield i;
+         this._checkModification(expected);
       }
    }
 
+   /**
+    * Returns an iterable of the items in the deque, from front to back.
+    * @throws {ConcurrentModificationError} If the deque is structurally modified during iteration.
+    */
    *values(): IterableIterator<T> {
+      const expected = this._modCount;
       for (let i = 0; i < this._length; i++) {
          const index = (this._front + i) & (this._capacity - 1);
          yield this.buffer[index] as T;
+         this._checkModification(expected);
       }
    }
 
-   *[Symbol.iterator](): IterableIterator<T> {
-      for (let i = 0; i < this._length; i++) {
-         const index = (this._front + i) & (this._capacity - 1);
-         yield this.buffer[index] as T;
-      }
+   /**
+    * Returns an iterator over the items in the deque, from front to back.
+    * @throws {ConcurrentModificationError} If the deque is structurally modified during iteration.
+    */
+   [Symbol.iterator](): IterableIterator<T> {
+      return this.values();
    }
 
    map<U>(callback: MapCallback<T, U>): IDeque<U> {
@@ -261,6 +677,236 @@ class Deque<T> implements IDeque<T> {
       return result;
    }
 
+   /**
+    * Creates a new deque with the elements that pass the predicate.
+    * @param predicate The function to test each element.
+    * @returns A new deque containing the matching elements.
+    */
+   filter(predicate: MapCallback<T, boolean>): IDeque<T> {
+      const result = Deque.of<T>();
+      for (let i = 0; i < this._length; i++) {
+         const item = this.buffer[(this._front + i) & (this._capacity - 1)] as T;
+         if (predicate(item, i)) {
+            result.push(item);
+         }
+      }
+      return result;
+   }
+
+   /**
+    * Reduces the deque to a single value, from front to back.
+    * @param callback The reducer function.
+    * @param initialValue The initial accumulator value. If omitted, the first element is used.
+    * @returns The accumulated value.
+    * @throws {TypeError} If the deque is empty and no initial value is provided.
+    */
+   reduce<U = T>(callback: ReduceCallback<T, U>, initialValue?: U): U {
+      let i = 0;
+      let accumulator: U;
+      if (arguments.length > 1) {
+         accumulator = initialValue as U;
+      } else {
+         if (this.isEmpty) {
+            throw new TypeError('Reduce of empty deque with no initial value');
+         }
+         accumulator = this.buffer[this._front] as unknown as U;
+         i = 1;
+      }
+
+      for (; i < this._length; i++) {
+         const index = (this._front + i) & (this._capacity - 1);
+         accumulator = callback(accumulator, this.buffer[index] as T, i);
+      }
+      return accumulator;
+   }
+
+   /**
+    * Reduces the deque to a single value, from back to front.
+    * @param callback The reducer function.
+    * @param initialValue The initial accumulator value. If omitted, the last element is used.
+    * @returns The accumulated value.
+    * @throws {TypeError} If the deque is empty and no initial value is provided.
+    */
+   reduceRight<U = T>(callback: ReduceCallback<T, U>, initialValue?: U): U {
+      let i = this._length - 1;
+      let accumulator: U;
+      if (arguments.length > 1) {
+         accumulator = initialValue as U;
+      } else {
+         if (this.isEmpty) {
+            throw new TypeError('Reduce of empty deque with no initial value');
+         }
+         accumulator = this.buffer[(this._front + i) & (this._capacity - 1)] as unknown as U;
+         i--;
+      }
+
+      for (; i >= 0; i--) {
+         const index = (this._front + i) & (this._capacity - 1);
+         accumulator = callback(accumulator, this.buffer[index] as T, i);
+      }
+      return accumulator;
+   }
+
+   /**
+    * Executes the callback once for each element, from front to back.
+    * @param callback The function to execute.
+    */
+   forEach(callback: MapCallback<T, void>): void {
+      for (let i = 0; i < this._length; i++) {
+         const index = (this._front + i) & (this._capacity - 1);
+         callback(this.buffer[index] as T, i);
+      }
+   }
+
+   /**
+    * Checks whether at least one element passes the predicate.
+    * @param predicate The function to test each element.
+    * @returns True if any element passes, false otherwise.
+    */
+   some(predicate: MapCallback<T, boolean>): boolean {
+      return this.findIndex(predicate) !== -1;
+   }
+
+   /**
+    * Checks whether every element passes the predicate.
+    * @param predicate The function to test each element.
+    * @returns True if all elements pass (or the deque is empty), false otherwise.
+    */
+   every(predicate: MapCallback<T, boolean>): boolean {
+      for (let i = 0; i < this._length; i++) {
+         const index = (this._front + i) & (this._capacity - 1);
+         if (!predicate(this.buffer[index] as T, i)) {
+            return false;
+         }
+      }
+      return true;
+   }
+
+   /**
+    * Finds the first element that passes the predicate.
+    * @param predicate The function to test each element.
+    * @returns The first matching element, or undefined if none is found.
+    */
+   find(predicate: MapCallback<T, boolean>): T | undefined {
+      const index = this.findIndex(predicate);
+      return index === -1 ? undefined : this.get(index);
+   }
+
+   /**
+    * Finds the index of the first element that passes the predicate.
+    * @param predicate The function to test each element.
+    * @returns The index of the first matching element, or -1 if none is found.
+    */
+   findIndex(predicate: MapCallback<T, boolean>): number {
+      for (let i = 0; i < this._length; i++) {
+         const index = (this._front + i) & (this._capacity - 1);
+         if (predicate(this.buffer[index] as T, i)) {
+            return i;
+         }
+      }
+      return -1;
+   }
+
+   /**
+    * Finds the last element that passes the predicate.
+    * @param predicate The function to test each element.
+    * @returns The last matching element, or undefined if none is found.
+    */
+   findLast(predicate: MapCallback<T, boolean>): T | undefined {
+      for (let i = this._length - 1; i >= 0; i--) {
+         const item = this.buffer[(this._front + i) & (this._capacity - 1)] as T;
+         if (predicate(item, i)) {
+            return item;
+         }
+      }
+      return undefined;
+   }
+
+   /**
+    * Creates a new deque with the elements between `start` and `end` (exclusive).
+    * Negative indices count back from the end, as with `Array.prototype.slice`.
+    * @param start The index to start at (default is 0).
+    * @param end The index to end before (default is the size of the deque).
+    * @returns A new deque containing the selected elements.
+    */
+   slice(start: number = 0, end: number = this._length): IDeque<T> {
+      start = start < 0 ? Math.max(0, this._length + start) : Math.min(start, this._length);
+      end = end < 0 ? Math.max(0, this._length + end) : Math.min(end, this._length);
+
+      const result = new Deque<T>(Math.max(0, end - start));
+      for (let i = start; i < end; i++) {
+         const index = (this._front + i) & (this._capacity - 1);
+         result.push(this.buffer[index] as T);
+      }
+      return result;
+   }
+
+   /**
+    * Creates a read-only view of the items between `start` and `end` (exclusive) without copying them.
+    * Negative indices count back from the end, as with `slice`.
+    * The view is invalidated by structural changes to the deque when it is fail-fast.
+    * @param start The index to start at (default is 0).
+    * @param end The index to end before (default is the size of the deque).
+    * @returns A view over the selected items.
+    */
+   view(start: number = 0, end: number = this._length): IDequeView<T> {
+      start = start < 0 ? Math.max(0, this._length + start) : Math.min(start, this._length);
+      end = end < 0 ? Math.max(0, this._length + end) : Math.min(end, this._length);
+
+      const expected = this._modCount;
+      return new DequeView(this, start, Math.max(0, end - start), () => this._checkModification(expected));
+   }
+
+   /**
+    * Reverses the deque in place.
+    * @returns The deque instance.
+    */
+   reverse(): this {
+      this._modCount++;
+      const mask = this._capacity - 1;
+      for (let i = 0, j = this._length - 1; i < j; i++, j--) {
+         const left = (this._front + i) & mask;
+         const right = (this._front + j) & mask;
+         const item = this.buffer[left];
+         this.buffer[left] = this.buffer[right];
+         this.buffer[right] = item;
+      }
+      return this;
+   }
+
+   /**
+    * Gets the element at the specified index. Negative indices count back from the end.
+    * @param index The index of the element to retrieve.
+    * @returns The element at the specified index, or undefined if the index is out of bounds.
+    */
+   at(index: number): T | undefined {
+      return this.get(Math.trunc(index));
+   }
+
+   /**
+    * Finds the index of the last occurrence of the specified item.
+    * @param item The item to find.
+    * @param fromIndex The index to start searching backwards from.
+    * @returns The index of the item, or -1 if not found.
+    */
+   lastIndexOf(item: T, fromIndex?: number): number {
+      if (this.isEmpty) return -1;
+
+      if (fromIndex === undefined || fromIndex >= this._length) {
+         fromIndex = this._length - 1;
+      } else if (fromIndex < 0) {
+         fromIndex = this._length + fromIndex;
+      }
+
+      for (let i = fromIndex; i >= 0; i--) {
+         const index = (this._front + i) & (this._capacity - 1);
+         if (this.buffer[index] === item) {
+            return i;
+         }
+      }
+      return -1;
+   }
+
    /**
     * Gets the capacity for the deque.
     * @param capacity The desired capacity.
@@ -268,7 +914,10 @@ class Deque<T> implements IDeque<T> {
     */
    private _getCapacity(capacity: number | T[] | undefined): number {
       if (typeof capacity == 'number') {
-         return this._pow2AtLeast(Math.min(Math.max(Deque.MIN_CAPACITY, capacity), Deque.MAX_CAPACITY));
+         if (this._maxlen !== undefined) {
+            capacity = Math.min(capacity, this._maxlen);
+         }
+         return pow2AtLeast(Math.min(Math.max(Deque.MIN_CAPACITY, capacity), Deque.MAX_CAPACITY));
       }
 
       if (Array.isArray(capacity)) {
@@ -278,29 +927,14 @@ class Deque<T> implements IDeque<T> {
       return Deque.MIN_CAPACITY;
    }
 
-   /**
-    * Gets the smallest power of 2 that is greater than or equal to n.
-    * @param n The number to check.
-    * @returns The smallest power of 2 greater than or equal to n.
-    */
-   private _pow2AtLeast(n: number): number {
-      n = n >>> 0;
-      n = n - 1;
-      n |= n >> 1;
-      n |= n >> 2;
-      n |= n >> 4;
-      n |= n >> 8;
-      n |= n >> 16;
-      return n + 1;
-   }
-
    /**
     * Checks if the deque has enough capacity.
     * @param targetSize The desired size.
     */
    private _checkCapacity(targetSize: number): void {
       if (this._capacity < targetSize) {
-         let newCapacity = this._getCapacity(Math.floor(this._capacity * Deque.GROWTH_FACTOR + Deque.GROWTH_CONSTANT));
+         const grown = Math.floor(this._capacity * Deque.GROWTH_FACTOR + Deque.GROWTH_CONSTANT);
+         let newCapacity = this._getCapacity(Math.max(grown, targetSize));
 
          if (newCapacity > Deque.MAX_CAPACITY) {
             throw new RangeError(`Deque capacity exceeds maximum limit of ${Deque.MAX_CAPACITY}`);
@@ -310,6 +944,22 @@ class Deque<T> implements IDeque<T> {
       }
    }
 
+   /**
+    * Halves the buffer while occupancy is below the shrink threshold.
+    * Shrinking to half (rather than to fit) leaves the deque half full, so a
+    * following burst of pushes does not immediately grow it again. The buffer only
+    * grows when it is full, so growing and shrinking cannot alternate.
+    */
+   private _checkShrink(): void {
+      let newCapacity = this._capacity;
+      while (newCapacity > this._minCapacity && this._length < newCapacity * Deque.SHRINK_THRESHOLD) {
+         newCapacity >>>= 1;
+      }
+      if (newCapacity !== this._capacity) {
+         this._resizeTo(Math.max(newCapacity, this._minCapacity));
+      }
+   }
+
    /**
     * Resizes the internal buffer to the new capacity.
     * @param newCapacity The new capacity for the deque.
@@ -328,6 +978,99 @@ class Deque<T> implements IDeque<T> {
       this._front = 0;
    }
 
+   /**
+    * Replaces `deleteCount` items at `start` with `items`, moving whichever side of the gap is shorter.
+    * @param start The index of the first item to replace.
+    * @param deleteCount The number of items to remove.
+    * @param items The items to insert in their place.
+    */
+   private _replaceRange(start: number, deleteCount: number, items: T[]): void {
+      const delta = items.length - deleteCount;
+      const tailStart = start + deleteCount;
+      if (delta > 0) {
+         this._checkCapacity(this._length + delta);
+      }
+
+      const mask = this._capacity - 1;
+      const front = this._front;
+      if (delta !== 0 && start < this._length - tailStart) {
+         // Move the head segment [0, start) by -delta positions.
+         const newFront = (front - delta) & mask;
+         if (delta > 0) {
+            for (let i = 0; i < start; i++) {
+               this.buffer[(newFront + i) & mask] = this.buffer[(front + i) & mask];
+            }
+         } else {
+            for (let i = start - 1; i >= 0; i--) {
+               this.buffer[(newFront + i) & mask] = this.buffer[(front + i) & mask];
+            }
+            for (let i = 0; i < -delta; i++) {
+               this.buffer[(front + i) & mask] = undefined;
+            }
+         }
+         this._front = newFront;
+      } else if (delta > 0) {
+         // Move the tail segment [tailStart, length) by delta positions.
+         for (let i = this._length - 1; i >= tailStart; i--) {
+            this.buffer[(front + i + delta) & mask] = this.buffer[(front + i) & mask];
+         }
+      } else if (delta < 0) {
+         for (let i = tailStart; i < this._length; i++) {
+            this.buffer[(front + i + delta) & mask] = this.buffer[(front + i) & mask];
+         }
+         for (let i = this._length + delta; i < this._length; i++) {
+            this.buffer[(front + i) & mask] = undefined;
+         }
+      }
+
+      for (let i = 0; i < items.length; i++) {
+         this.buffer[(this._front + start + i) & mask] = items[i];
+      }
+      this._length += delta;
+      this._modCount++;
+      if (delta < 0) {
+         this._checkShrink();
+      }
+   }
+
+   /**
+    * Copies the first `count` items, in order, into the target array.
+    * @param target The array to copy into.
+    * @param offset The index in `target` to start writing at.
+    * @param count The number of items to copy.
+    * @returns The size of the first chunk, before the wrap-around.
+    */
+   private _copyOut(target: T[], offset: number, count: number): number {
+      const first = Math.min(count, this._capacity - this._front);
+      for (let i = 0; i < first; i++) {
+         target[offset + i] = this.buffer[this._front + i] as T;
+      }
+      for (let i = first; i < count; i++) {
+         target[offset + i] = this.buffer[i - first] as T;
+      }
+      return first;
+   }
+
+   /**
+    * Throws if the deque was structurally modified since an iterator started, unless fail-fast is disabled.
+    * @param expected The modification count observed when the iterator started.
+    */
+   private _checkModification(expected: number): void {
+      if (this._failFast && this._modCount !== expected) {
+         throw new ConcurrentModificationError('Deque');
+      }
+   }
+
+   /**
+    * Notifies the eviction callback, if any, that an item was dropped.
+    * @param item The evicted item.
+    */
+   private _evict(item: T): void {
+      if (this._onEvict) {
+         this._onEvict(item);
+      }
+   }
+
    /**
     *
     * @param index
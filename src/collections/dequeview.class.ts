@@ -0,0 +1,88 @@
+import { IDeque, IDequeView } from '../interfaces/deque.interfaces';
+
+/**
+ * DequeView is a read-only window over a range of a `Deque`, created with `deque.view(start, end)`.
+ * It reads straight from the deque's ring buffer instead of copying, so it is cheap to create.
+ * Writes made with `deque.set()` are visible through the view; structural changes
+ * (pushes, pops, inserts...) invalidate it when the deque is fail-fast.
+ *
+ * @template T - The type of items in the view.
+ */
+class DequeView<T> implements IDequeView<T> {
+   private readonly _source: IDeque<T>;
+   private readonly _start: number;
+   private readonly _size: number;
+   private readonly _check: () => void;
+
+   /**
+    * @param source The deque to read from.
+    * @param start The index in the deque where the view starts.
+    * @param size The number of items in the view.
+    * @param check Throws if the deque was structurally modified since the view was created.
+    */
+   constructor(source: IDeque<T>, start: number, size: number, check: () => void) {
+      this._source = source;
+      this._start = start;
+      this._size = size;
+      this._check = check;
+   }
+
+   /**
+    * Gets the number of items in the view.
+    */
+   get size(): number {
+      return this._size;
+   }
+
+   /**
+    * Gets whether the view is empty.
+    */
+   get isEmpty(): boolean {
+      return this._size === 0;
+   }
+
+   /**
+    * Gets the item at the specified index of the view. Negative indices count back from the end.
+    * @param index The index of the item to retrieve (default is 0).
+    * @returns The item, or undefined if the index is out of bounds.
+    * @throws {ConcurrentModificationError} If the deque was structurally modified since the view was created.
+    */
+   get(index: number = 0): T | undefined {
+      this._check();
+      if (!Number.isInteger(index)) return undefined;
+      if (index < 0) {
+         index = this._size + index;
+      }
+      if (index < 0 || index >= this._size) {
+         return undefined;
+      }
+      return this._source.get(this._start + index);
+   }
+
+   /**
+    * Copies the items in the view to a new array.
+    * @returns An array containing the items in the view.
+    * @throws {ConcurrentModificationError} If the deque was structurally modified since the view was created.
+    */
+   toArray(): T[] {
+      this._check();
+      const result = new Array<T>(this._size);
+      for (let i = 0; i < this._size; i++) {
+         result[i] = this._source.get(this._start + i) as T;
+      }
+      return result;
+   }
+
+   /**
+    * Returns an iterator over the items in the view.
+    * @throws {ConcurrentModificationError} If the deque was structurally modified since the view was created.
+    */
+   *[Symbol.iterator](): IterableIterator<T> {
+      for (let i = 0; i < this._size; i++) {
+         this._check();
+         yield this._source.get(this._start + i) as T;
+      }
+   }
+}
+
+export { DequeView };
@@ -1,17 +1,34 @@
-import { HeapqConstructor, IHeap } from '../interfaces';
-import { CompareFn, KeyFn } from '../types/common.types';
-import { len } from '../utils';
-import { defaultComparator } from '../utils/comparators';
+import {
+   HeapEntry,
+   HeapHandle,
+   HeapOptions,
+   HeapqConstructor,
+   IHeap,
+   IIndexedHeap,
+   IMinMaxHeap,
+   IPairingHeap,
+   ITopK,
+   MergeOptions,
+   MinMaxHeapOptions,
+   PairingNode,
+   PairingOwner,
+   StableEntry,
+   TopKOptions,
+} from '../interfaces';
+import { CompareFn, EvictCallback, KeyFn, MapCallback, MoveCallback } from '../types/common.types';
+import { ConcurrentModificationError, HeapInvariantError, isIterable, len } from '../utils';
+import { defaultComparator, keyComparator, reverseComparator } from '../utils/comparators';
 
 /**
  * Replace the root item with a new item and restore heap property.
  * @param heap The heap array
  * @param item The new item to replace the root
  * @param comparator The comparison function
+ * @param arity The number of children per node
  * @returns The replaced root item, or undefined if heap is empty
  * @complexity O(log n)
  */
-const _replace = <T>(heap: T[], item: T, comparator: CompareFn<T>): T | undefined => {
+const _replace = <T>(heap: T[], item: T, comparator: CompareFn<T>, arity: number = 2): T | undefined => {
    let returnitem = undefined;
 
    if (heap.length != 0) {
@@ -19,60 +36,164 @@ const _replace = <T>(heap: T[], item: T, comparator: CompareFn<T>): T | undefine
    }
 
    heap[0] = item;
-   _siftDown(heap, 0, heap.length, comparator);
+   _siftDown(heap, 0, heap.length, comparator, arity);
    return returnitem;
 };
 
 /**
  * Restore heap property by sifting down from given index.
- * @complexity O(log n)
+ * The children of `index` are `arity * index + 1` to `arity * index + arity`.
+ * @param arity The number of children per node (2 for a binary heap).
+ * @param onMove Optional callback notified of the final index of every item that moves.
+ * @complexity O(arity * log_arity n)
  */
-const _siftDown = <T>(heap: T[], index: number, length: number, comparator: CompareFn<T>): void => {
+const _siftDown = <T>(
+   heap: T[],
+   index: number,
+   length: number,
+   comparator: CompareFn<T>,
+   arity: number = 2,
+   onMove?: MoveCallback<T>
+): void => {
    const item = heap[index];
    while (index < length) {
-      let left = 2 * index + 1;
-      let right = left + 1;
+      const first = arity * index + 1;
+      const last = Math.min(first + arity, length);
       let smallestIndex = index;
 
-      if (left < length && comparator(heap[left], heap[smallestIndex]) < 0) {
-         smallestIndex = left;
-      }
-
-      if (right < length && comparator(heap[right], heap[smallestIndex]) < 0) {
-         smallestIndex = right;
+      for (let child = first; child < last; child++) {
+         if (comparator(heap[child], heap[smallestIndex]) < 0) {
+            smallestIndex = child;
+         }
       }
 
       if (smallestIndex === index) break;
 
       heap[index] = heap[smallestIndex];
       heap[smallestIndex] = item;
+      onMove?.(heap[index], index);
       index = smallestIndex;
    }
+   onMove?.(item, index);
 };
 
 /**
  * Restore heap property by sifting up from given index.
- * @complexity O(log n)
+ * @param arity The number of children per node (2 for a binary heap).
+ * @param onMove Optional callback notified of the final index of every item that moves.
+ * @complexity O(log_arity n)
  */
-const _siftUp = <T>(heap: T[], index: number, comparator: CompareFn<T>): void => {
+const _siftUp = <T>(
+   heap: T[],
+   index: number,
+   comparator: CompareFn<T>,
+   arity: number = 2,
+   onMove?: MoveCallback<T>
+): void => {
    const item = heap[index];
    while (index > 0) {
-      let parentIndex = Math.floor((index - 1) / 2);
+      let parentIndex = Math.floor((index - 1) / arity);
       if (comparator(item, heap[parentIndex]) >= 0) break;
       heap[index] = heap[parentIndex];
+      onMove?.(heap[index], index);
       index = parentIndex;
    }
    heap[index] = item;
+   onMove?.(item, index);
 };
 /**
  * Transform array into a heap in-place.
  * @param items The array to heapify
  * @param comparator The comparator function to use
+ * @param arity The number of children per node
+ * @complexity O(n)
+ */
+const _heapify = <T>(items: T[], comparator: CompareFn<T>, arity: number = 2): void => {
+   for (let i = Math.floor((items.length - 2) / arity); i >= 0; i--) {
+      _siftDown(items, i, items.length, comparator, arity);
+   }
+};
+
+/**
+ * Find the first item that sorts before its parent.
+ * @returns The index of the offending item, or -1 if the array satisfies the heap property.
+ * @complexity O(n)
+ */
+const _findViolation = <T>(heap: T[], comparator: CompareFn<T>, arity: number = 2): number => {
+   for (let i = 1; i < heap.length; i++) {
+      if (comparator(heap[i], heap[Math.floor((i - 1) / arity)]) < 0) return i;
+   }
+   return -1;
+};
+
+/**
+ * Whether debug mode is on by default, through the `COLLECTIONS_DEBUG` environment variable.
+ * It is read once when the module loads, since `process.env` lookups are slow on hot paths.
+ */
+const _debugFlag = typeof process !== 'undefined' ? process.env?.COLLECTIONS_DEBUG : undefined;
+const _debugDefault = _debugFlag !== undefined && _debugFlag !== '' && _debugFlag !== '0' && _debugFlag !== 'false';
+
+/**
+ * Describes an item for error messages.
+ */
+const _describe = (value: unknown): string => {
+   try {
+      return JSON.stringify(value) ?? String(value);
+   } catch {
+      return String(value);
+   }
+};
+
+/**
+ * Wraps a comparator for debug mode so every call also checks antisymmetry:
+ * `compare(a, b)` and `compare(b, a)` must have opposite signs, or both be 0.
+ */
+const _checkedComparator = <T>(comparator: CompareFn<T>): CompareFn<T> => {
+   return (a, b): number => {
+      const order = comparator(a, b);
+      const reverse = comparator(b, a);
+      if (Number.isNaN(order) || Math.sign(order) !== -Math.sign(reverse)) {
+         throw new HeapInvariantError(
+            `Inconsistent comparator: compare(${_describe(a)}, ${_describe(b)}) is ${order} ` +
+               `but compare(${_describe(b)}, ${_describe(a)}) is ${reverse}`
+         );
+      }
+      return order;
+   };
+};
+
+/**
+ * Validate a heap array in debug mode: the heap property for every parent and child, and
+ * transitivity along every grandparent, parent and child chain.
+ * @param itemOf Gets the item stored in a slot, for the error message.
+ * @throws {HeapInvariantError} Naming the offending pair.
  * @complexity O(n)
  */
-const _heapify = <T>(items: T[], comparator: CompareFn<T>): void => {
-   for (let i = Math.floor(items.length / 2) - 1; i >= 0; i--) {
-      _siftDown(items, i, items.length, comparator);
+const _verifyHeap = <T>(
+   heap: T[],
+   comparator: CompareFn<T>,
+   arity: number,
+   itemOf: MapCallback<T, unknown> = (slot): unknown => slot
+): void => {
+   const describe = (index: number): string => _describe(itemOf(heap[index], index));
+   for (let i = 1; i < heap.length; i++) {
+      const parent = Math.floor((i - 1) / arity);
+      if (comparator(heap[i], heap[parent]) < 0) {
+         throw new HeapInvariantError(
+            `Heap property violated: ${describe(i)} at index ${i} ` +
+               `sorts before its parent ${describe(parent)} at index ${parent}`
+         );
+      }
+
+      // The parent was already checked against the grandparent, so a failure here breaks transitivity.
+      const grandparent = Math.floor((parent - 1) / arity);
+      if (parent > 0 && comparator(heap[i], heap[grandparent]) < 0) {
+         throw new HeapInvariantError(
+            `Non-transitive comparator: ${describe(i)} at index ${i} sorts before ` +
+               `${describe(grandparent)} at index ${grandparent}, although neither sorts before ` +
+               `${describe(parent)} at index ${parent} in between`
+         );
+      }
    }
 };
 
@@ -194,20 +315,231 @@ const _nlargest = <T>(n: number, iterable: Iterable<T>, comparator: CompareFn<T>
    return result.map(([item]) => item);
 };
 
+/**
+ * Splits the trailing options object off the arguments of `merge` and builds the comparator.
+ * @returns The sources and the comparator for their items.
+ */
+const _mergeArgs = <T, S>(args: (S | MergeOptions<T>)[]): [S[], CompareFn<T>] => {
+   let options: MergeOptions<T> = {};
+   const last = args[args.length - 1];
+   if (last !== undefined && !isIterable(last) && !(Symbol.asyncIterator in Object(last))) {
+      options = last as MergeOptions<T>;
+      args = args.slice(0, -1);
+   }
+
+   const { key, reverse = false } = options;
+   const comparator: CompareFn<T> = key ? keyComparator(key) : defaultComparator;
+   return [args as S[], reverse ? reverseComparator(comparator) : comparator];
+};
+
+/**
+ * Normalizes the comparator-or-options argument of the heap constructors.
+ * A `comparator` takes precedence over `key`; `reverse` flips whichever is used.
+ * In debug mode the comparator is wrapped with `_checkedComparator`.
+ * @returns The options with `comparator`, `arity` and `debug` resolved.
+ * @throws {RangeError} If `arity` is not an integer of at least 2.
+ */
+const _heapOptions = <T>(
+   options?: CompareFn<T> | HeapOptions<T>
+): HeapOptions<T> & { comparator: CompareFn<T>; arity: number; debug: boolean } => {
+   if (typeof options == 'function') {
+      return { arity: 2, debug: _debugDefault, comparator: _debugDefault ? _checkedComparator(options) : options };
+   }
+   const { comparator, key, reverse = false, arity = 2, debug = _debugDefault, ...rest } = options || {};
+   if (!Number.isInteger(arity) || arity < 2) {
+      throw new RangeError('arity must be an integer of at least 2');
+   }
+   const base = comparator ?? (key ? keyComparator(key) : defaultComparator);
+   const ordered = reverse ? reverseComparator(base) : base;
+   return { ...rest, arity, debug, comparator: debug ? _checkedComparator(ordered) : ordered };
+};
+
+/**
+ * The next sequence number of each stable `heapq` array, so every array numbers its own entries.
+ */
+const _sequences = new WeakMap<StableEntry<unknown>[], number>();
+
+/**
+ * Gets the sequence number for a new entry of a stable `heapq` array. An array seen for the first time
+ * (for example a copy of another one) continues after the highest sequence it already holds.
+ */
+const _nextSequence = <T>(entries: StableEntry<T>[]): number => {
+   let next = _sequences.get(entries);
+   if (next === undefined) {
+      next = entries.reduce((max, [, sequence]) => Math.max(max, sequence + 1), 0);
+   }
+   _sequences.set(entries, next + 1);
+   return next;
+};
+
+/**
+ * Compare `[item, sequence]` entries by item, then by insertion sequence, so equal items keep FIFO order.
+ * This is the same tie-breaking trick `_nsmallest` and `_nlargest` use.
+ */
+const _stableComparator = <T>(comparator: CompareFn<T>): CompareFn<StableEntry<T>> => {
+   return (a, b) => comparator(a[0], b[0]) || a[1] - b[1];
+};
+
+/**
+ * Lazily merge sorted iterables using a heap of [head, source index, iterator] entries.
+ * The source index breaks ties, so equal items come out in input order.
+ * @complexity O(n log k) for n items across k iterables
+ */
+function* _merge<T>(iterables: Iterable<T>[], comparator: CompareFn<T>): IterableIterator<T> {
+   type Head = [T, number, Iterator<T>];
+   const headComparator: CompareFn<Head> = (a, b) => comparator(a[0], b[0]) || a[1] - b[1];
+   const heap: Head[] = [];
+   iterables.forEach((iterable, order) => {
+      const it = iterable[Symbol.iterator]();
+      const { value, done } = it.next();
+      if (!done) heap.push([value, order, it]);
+   });
+   _heapify(heap, headComparator);
+
+   try {
+      while (heap.length > 0) {
+         const head = heap[0];
+         yield head[0];
+
+         const { value, done } = head[2].next();
+         if (done) {
+            const last = heap.pop() as Head;
+            if (heap.length === 0) break;
+            heap[0] = last;
+         } else {
+            head[0] = value;
+         }
+         _siftDown(heap, 0, heap.length, headComparator);
+      }
+   } finally {
+      // Close the sources that were not exhausted when the consumer stops early.
+      for (const [, , it] of heap) it.return?.();
+   }
+}
+
+/**
+ * Async counterpart of `_merge`. The first item of every source is requested concurrently.
+ * @complexity O(n log k) for n items across k iterables
+ */
+async function* _mergeAsync<T>(
+   iterables: (AsyncIterable<T> | Iterable<T>)[],
+   comparator: CompareFn<T>
+): AsyncIterableIterator<T> {
+   type Head = [T, number, AsyncIterator<T> | Iterator<T>];
+   const headComparator: CompareFn<Head> = (a, b) => comparator(a[0], b[0]) || a[1] - b[1];
+   const iterators = iterables.map(iterable =>
+      Symbol.asyncIterator in Object(iterable)
+         ? (iterable as AsyncIterable<T>)[Symbol.asyncIterator]()
+         : (iterable as Iterable<T>)[Symbol.iterator]()
+   );
+   const heap: Head[] = [];
+   const firsts = await Promise.all(iterators.map(it => it.next()));
+   firsts.forEach(({ value, done }, order) => {
+      if (!done) heap.push([value, order, iterators[order]]);
+   });
+   _heapify(heap, headComparator);
+
+   try {
+      while (heap.length > 0) {
+         const head = heap[0];
+         yield head[0];
+
+         const { value, done } = await head[2].next();
+         if (done) {
+            const last = heap.pop() as Head;
+            if (heap.length === 0) break;
+            heap[0] = last;
+         } else {
+            head[0] = value;
+         }
+         _siftDown(heap, 0, heap.length, headComparator);
+      }
+   } finally {
+      await Promise.all(heap.map(([, , it]) => it.return?.()));
+   }
+}
+
 class Heap<T> implements IHeap<T> {
+   // In stable mode every slot holds a `StableEntry<T>`; see `_wrap` and `_unwrap`.
    private _data: T[] = [];
    private readonly _comparator: CompareFn<T>;
+   private readonly _siftComparator: CompareFn<T>;
+   private readonly _stable: boolean;
+   private readonly _arity: number;
+   private readonly _failFast: boolean;
+   private _debug: boolean;
+   private _sequence = 0;
+   private _modCount = 0;
 
-   constructor(iterable?: Iterable<T> | CompareFn<T>, comparator?: CompareFn<T>) {
-      if (typeof iterable == 'function') {
-         this._comparator = iterable;
-      } else {
-         this._comparator = comparator || defaultComparator;
-         if (iterable) {
-            this._data = Array.from(iterable);
-            this.heapify();
-         }
+   /**
+    * Creates a new heap.
+    * @param iterable The initial items, or the comparator/options when no items are given.
+    * @param options A comparator function, or an options object with `comparator` or `key`, `reverse`, `stable`, `arity`,
+    *                `failFast` and `debug`. With `stable`, equal items are popped in insertion (FIFO) order.
+    *                `arity` sets the number of children per node (default 2); a 4-ary heap has fewer levels,
+    *                which often makes large heaps faster.
+    *                `debug` (default on when the `COLLECTIONS_DEBUG` environment variable is set) checks the comparator
+    *                on every call and re-validates the heap after every mutation, throwing a `HeapInvariantError`.
+    * @throws {RangeError} If `arity` is not an integer of at least 2.
+    * @example
+    * new Heap(tasks, { key: task => task.priority, reverse: true }); // highest priority first
+    */
+   constructor(iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>, options?: CompareFn<T> | HeapOptions<T>) {
+      if (iterable !== undefined && !isIterable(iterable)) {
+         options = iterable;
+         iterable = undefined;
       }
+
+      const { comparator, failFast = true, stable = false, arity, debug } = _heapOptions(options);
+      this._comparator = comparator;
+      this._stable = stable;
+      this._arity = arity;
+      this._siftComparator = stable ? (_stableComparator(comparator) as unknown as CompareFn<T>) : comparator;
+      this._failFast = failFast;
+      this._debug = debug;
+
+      if (iterable) {
+         this._data = Array.from(iterable, item => this._wrap(item));
+         this.heapify();
+      }
+   }
+
+   /**
+    * Creates a heap from an iterable.
+    * @param iterable The initial items.
+    * @param options A comparator function, or an options object with `comparator` or `key`, `reverse` and `failFast`.
+    * @returns A new heap containing the items.
+    */
+   static from<T>(iterable: Iterable<T>, options?: CompareFn<T> | HeapOptions<T>): Heap<T> {
+      return new Heap<T>(iterable, options);
+   }
+
+   /**
+    * Creates a heap whose root is the smallest item.
+    * @param iterable The initial items, or the comparator/options when no items are given.
+    * @param options A comparator function, or an options object with `comparator` or `key` and `failFast`.
+    * @returns A new min-heap.
+    */
+   static minHeap<T>(
+      iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>,
+      options?: CompareFn<T> | HeapOptions<T>
+   ): Heap<T> {
+      return Heap._withOrder(false, iterable, options);
+   }
+
+   /**
+    * Creates a heap whose root is the largest item, without hand-writing a reversed comparator.
+    * @param iterable The initial items, or the comparator/options when no items are given.
+    * @param options A comparator function, or an options object with `comparator` or `key` and `failFast`.
+    * @returns A new max-heap.
+    * @example
+    * const tasks = Heap.maxHeap<Task>({ key: task => task.priority });
+    */
+   static maxHeap<T>(
+      iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>,
+      options?: CompareFn<T> | HeapOptions<T>
+   ): Heap<T> {
+      return Heap._withOrder(true, iterable, options);
    }
 
    get size(): number {
@@ -218,24 +550,35 @@ class Heap<T> implements IHeap<T> {
       return this.size === 0;
    }
 
+   /**
+    * Gets the number of children per node (2 for a binary heap).
+    */
+   get arity(): number {
+      return this._arity;
+   }
+
    push(item: T): this {
-      this._data.push(item);
-      _siftUp(this._data, this._data.length - 1, this._comparator);
+      this._modCount++;
+      this._data.push(this._wrap(item));
+      _siftUp(this._data, this._data.length - 1, this._siftComparator, this._arity);
+      this._verify();
       return this;
    }
 
    pop(): T | undefined {
       if (this.isEmpty) return undefined;
 
+      this._modCount++;
       const root = this._data[0];
       const last = this._data.pop()!;
 
       if (!this.isEmpty) {
          this._data[0] = last;
-         _siftDown(this._data, 0, this._data.length, this._comparator);
+         _siftDown(this._data, 0, this._data.length, this._siftComparator, this._arity);
       }
 
-      return root;
+      this._verify();
+      return this._unwrap(root);
    }
    /**
     * Peek at an element in the heap without removing it.
@@ -245,147 +588,1729 @@ class Heap<T> implements IHeap<T> {
     */
    peek(index: number = 0): T | undefined {
       if (index < 0 || index >= this._data.length) return undefined;
-      return this._data[index];
+      return this._unwrap(this._data[index]);
    }
 
    replace(item: T): T | undefined {
-      return _replace(this._data, item, this._comparator);
+      this._modCount++;
+      const root = _replace(this._data, this._wrap(item), this._siftComparator, this._arity);
+      this._verify();
+      return root === undefined ? undefined : this._unwrap(root);
    }
 
    pushPop(item: T): T | undefined {
-      if (this.isEmpty || this._comparator(item, this._data[0]) < 0) {
+      if (this.isEmpty || this._comparator(item, this._unwrap(this._data[0])) < 0) {
          return item;
       }
 
+      this._modCount++;
       const root = this._data[0];
-      this._data[0] = item;
-      _siftDown(this._data, 0, this._data.length, this._comparator);
-      return root;
+      this._data[0] = this._wrap(item);
+      _siftDown(this._data, 0, this._data.length, this._siftComparator, this._arity);
+      this._verify();
+      return this._unwrap(root);
    }
 
    heapify(items?: T[]): this {
+      this._modCount++;
       if (items) {
-         this._data.push(...items);
+         for (const item of items) {
+            this._data.push(this._wrap(item));
+         }
       }
-      _heapify(this._data, this._comparator);
+      _heapify(this._data, this._siftComparator, this._arity);
+      this._verify();
       return this;
    }
 
+   /**
+    * Checks that every item sorts at or after its parent. A heap can only become invalid through
+    * an inconsistent comparator or items mutated after they were pushed.
+    * @returns True if the heap property holds.
+    * @complexity O(n)
+    */
+   isValid(): boolean {
+      return _findViolation(this._data, this._siftComparator, this._arity) === -1;
+   }
+
    sort(): T[] {
-      return [...this._data].sort(this._comparator);
+      const sorted = [...this._data].sort(this._siftComparator);
+      return this._stable ? sorted.map(slot => this._unwrap(slot)) : sorted;
    }
 
    nsmallest(n: number): T[] {
-      return _nsmallest(n, this._data, this._comparator);
+      return _nsmallest(n, this._items(), this._comparator);
    }
 
    nlargest(n: number): T[] {
-      return _nlargest(n, this._data, this._comparator);
+      return _nlargest(n, this._items(), this._comparator);
    }
 
    clone(): Heap<T> {
-      return new Heap([...this._data], this._comparator);
+      // In debug mode `_comparator` is already checked, so it must not be wrapped a second time.
+      const copy = new Heap<T>({
+         comparator: this._comparator,
+         failFast: this._failFast,
+         stable: this._stable,
+         arity: this._arity,
+         debug: false,
+      });
+      copy._debug = this._debug;
+      copy._data = [...this._data];
+      copy._sequence = this._sequence;
+      return copy;
    }
 
+   /**
+    * Returns an iterable of the items in heap (array) order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
    *values(): IterableIterator<T> {
-      yield* this._data;
+      const expected = this._modCount;
+      for (let i = 0; i < this._data.length; i++) {
+         yield this._unwrap(this._data[i]);
+         this._checkModification(expected);
+      }
    }
 
+   /**
+    * Returns an iterable of [index, item] pairs in heap (array) order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
    *entries(): IterableIterator<[number, T]> {
+      const expected = this._modCount;
       for (let i = 0; i < this._data.length; i++) {
-         yield [i, this._data[i]];
+         yield [i, this._unwrap(this._data[i])];
+         this._checkModification(expected);
       }
    }
 
+   /**
+    * Returns an iterable of the indices in the heap.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
    *keys(): IterableIterator<number> {
+      const expected = this._modCount;
       for (let i = 0; i < this._data.length; i++) {
          yield i;
+         this._checkModification(expected);
+      }
+   }
+
+   /**
+    * Lazily yields the items in priority order without modifying the heap.
+    * A small auxiliary heap holds the indices of the frontier of the implicit tree: popping
+    * an index yields its item and pushes its children.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    * @complexity O(k log k) for the first k items
+    */
+   *sortedValues(): IterableIterator<T> {
+      if (this.isEmpty) return;
+
+      const expected = this._modCount;
+      const data = this._data;
+      const compare: CompareFn<number> = (a, b) => this._siftComparator(data[a], data[b]);
+      const frontier: number[] = [0];
+
+      while (frontier.length > 0) {
+         const index = frontier[0];
+         const last = frontier.pop() as number;
+         if (frontier.length > 0) {
+            frontier[0] = last;
+            _siftDown(frontier, 0, frontier.length, compare);
+         }
+
+         yield this._unwrap(data[index]);
+         this._checkModification(expected);
+
+         const first = this._arity * index + 1;
+         for (let child = first; child < first + this._arity && child < data.length; child++) {
+            frontier.push(child);
+            _siftUp(frontier, frontier.length - 1, compare);
+         }
+      }
+   }
+
+   /**
+    * Removes and yields the items in priority order until the heap is empty.
+    * Items pushed while draining are yielded too, once their turn comes.
+    * @complexity O(log n) per item
+    */
+   *drain(): IterableIterator<T> {
+      while (!this.isEmpty) {
+         yield this.pop() as T;
       }
    }
 
    [Symbol.iterator](): IterableIterator<T> {
-      return this._data[Symbol.iterator]();
+      return this.values();
    }
 
    clear(): void {
+      this._modCount++;
       this._data.length = 0;
    }
 
    toArray(): T[] {
-      return [...this._data];
+      return this._stable ? this._data.map(slot => this._unwrap(slot)) : [...this._data];
    }
 
    toString(): string {
-      return `Heap(${this._data.length}) [${this._data.join(', ')}]`;
+      return `Heap(${this._data.length}) [${this._items().join(', ')}]`;
+   }
+
+   /**
+    * Wraps an item for storage. In stable mode it becomes an `[item, sequence]` entry.
+    */
+   private _wrap(item: T): T {
+      return this._stable ? ([item, this._sequence++] as StableEntry<T> as unknown as T) : item;
+   }
+
+   /**
+    * Gets the item stored in a slot.
+    */
+   private _unwrap(slot: T): T {
+      return this._stable ? (slot as unknown as StableEntry<T>)[0] : slot;
+   }
+
+   /**
+    * Gets the items in heap (array) order, without copying when the heap is not stable.
+    */
+   private _items(): T[] {
+      return this._stable ? this.toArray() : this._data;
+   }
+
+   /**
+    * Re-validates the whole heap after a mutation in debug mode.
+    * @throws {HeapInvariantError} If the heap property or the comparator's transitivity is broken.
+    */
+   private _verify(): void {
+      if (this._debug) {
+         _verifyHeap(this._data, this._siftComparator, this._arity);
+      }
+   }
+
+   /**
+    * Throws if the heap was modified since an iterator started, unless fail-fast is disabled.
+    * @param expected The modification count observed when the iterator started.
+    */
+   private _checkModification(expected: number): void {
+      if (this._failFast && this._modCount !== expected) {
+         throw new ConcurrentModificationError('Heap');
+      }
+   }
+   /**
+    * Creates a heap with the given direction, overriding any `reverse` in the options.
+    */
+   private static _withOrder<T>(
+      reverse: boolean,
+      iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>,
+      options?: CompareFn<T> | HeapOptions<T>
+   ): Heap<T> {
+      if (iterable !== undefined && !isIterable(iterable)) {
+         options = iterable;
+         iterable = undefined;
+      }
+      const resolved = typeof options == 'function' ? { comparator: options } : options || {};
+      return new Heap<T>(iterable, { ...resolved, reverse });
    }
 }
 
-class HeapqStatic {
-   constructor() {
-      throw new Error('Heapq is a static class and cannot be instantiated.');
+/**
+ * IndexedHeap is a binary heap that keeps track of where each item lives, so items already
+ * in the heap can be updated or removed in O(log n). `push` returns a handle for the item,
+ * which is what `update`, `decreaseKey` and `remove` take.
+ *
+ * This avoids the usual "push duplicates and skip stale entries" workaround in Dijkstra/A*
+ * or when rescheduling tasks.
+ *
+ * @template T - The type of items in the heap.
+ * @example
+ * const queue = new IndexedHeap<{ node: string; dist: number }>((a, b) => a.dist - b.dist);
+ * const a = queue.push({ node: 'a', dist: 10 });
+ * queue.push({ node: 'b', dist: 5 });
+ * queue.decreaseKey(a, { node: 'a', dist: 1 });
+ * console.log(queue.pop()); // { node: 'a', dist: 1 }
+ */
+class IndexedHeap<T> implements IIndexedHeap<T> {
+   private _data: HeapEntry<T>[] = [];
+   private readonly _counts = new Map<T, number>();
+   private readonly _comparator: CompareFn<T>;
+   private readonly _entryComparator: CompareFn<HeapEntry<T>>;
+   private readonly _onMove: MoveCallback<HeapEntry<T>>;
+   private readonly _failFast: boolean;
+   private readonly _debug: boolean;
+   private _sequence = 0;
+   private _modCount = 0;
+
+   /**
+    * Creates a new indexed heap.
+    * @param options A comparator function, or an options object with `comparator` or `key`, `reverse`, `stable`,
+    *                `failFast` and `debug`. As in `Heap`, `debug` re-validates the heap after every mutation.
+    */
+   constructor(options?: CompareFn<T> | HeapOptions<T>) {
+      const { comparator, failFast = true, stable = false, debug } = _heapOptions(options);
+      this._comparator = comparator;
+      this._failFast = failFast;
+      this._debug = debug;
+      this._entryComparator = stable
+         ? (a, b): number => comparator(a.item, b.item) || a.sequence - b.sequence
+         : (a, b): number => comparator(a.item, b.item);
+      this._onMove = (entry, index): void => {
+         entry.index = index;
+      };
    }
-   // =============================
-   // Static methods for Heap class
-   // =============================
-   static of<T>(...items: T[]): Heap<T> {
-      return new Heap<T>(items);
+
+   get size(): number {
+      return this._data.length;
+   }
+
+   get isEmpty(): boolean {
+      return this.size === 0;
+   }
+
+   /**
+    * Adds an item to the heap.
+    * @param item The item to add.
+    * @returns A handle to the item, valid until it is popped or removed.
+    * @complexity O(log n)
+    */
+   push(item: T): HeapHandle<T> {
+      this._modCount++;
+      const entry: HeapEntry<T> = { item, index: this._data.length, sequence: this._sequence++ };
+      this._data.push(entry);
+      this._count(item, 1);
+      _siftUp(this._data, entry.index, this._entryComparator, 2, this._onMove);
+      this._verify();
+      return entry;
+   }
+
+   /**
+    * Removes and returns the root item. Its handle becomes invalid.
+    * @returns The root item, or undefined if the heap is empty.
+    * @complexity O(log n)
+    */
+   pop(): T | undefined {
+      if (this.isEmpty) return undefined;
+      const root = this._data[0];
+      this._removeAt(0);
+      return root.item;
+   }
+
+   /**
+    * Gets the root item without removing it.
+    * @returns The root item, or undefined if the heap is empty.
+    */
+   peek(): T | undefined {
+      return this._data[0]?.item;
    }
-   static from<T>(iterable: Iterable<T>, comparator?: CompareFn<T>): Heap<T> {
-      if (comparator === undefined) {
-         comparator = defaultComparator;
+
+   /**
+    * Replaces the item of a handle and restores the heap property, moving it up or down as needed.
+    * @param handle The handle returned by `push`.
+    * @param item The new item.
+    * @returns The heap instance.
+    * @throws {Error} If the handle is not in this heap.
+    * @complexity O(log n)
+    */
+   update(handle: HeapHandle<T>, item: T): this {
+      const entry = this._entry(handle);
+      this._setItem(entry, item);
+      if (entry.index > 0 && this._entryComparator(entry, this._data[(entry.index - 1) >> 1]) < 0) {
+         _siftUp(this._data, entry.index, this._entryComparator, 2, this._onMove);
+      } else {
+         _siftDown(this._data, entry.index, this._data.length, this._entryComparator, 2, this._onMove);
       }
-      return new Heap<T>(iterable, comparator);
+      this._verify();
+      return this;
    }
-   static isHeapq<T>(value: any): value is Heap<T> {
-      return value instanceof Heap;
+
+   /**
+    * Replaces the item of a handle with one that sorts no later, moving it towards the root.
+    * @param handle The handle returned by `push`.
+    * @param item The new item.
+    * @returns The heap instance.
+    * @throws {Error} If the handle is not in this heap.
+    * @throws {RangeError} If the new item sorts after the current one.
+    * @complexity O(log n)
+    */
+   decreaseKey(handle: HeapHandle<T>, item: T): this {
+      const entry = this._entry(handle);
+      if (this._comparator(item, entry.item) > 0) {
+         throw new RangeError('decreaseKey: the new item sorts after the current one');
+      }
+      this._setItem(entry, item);
+      _siftUp(this._data, entry.index, this._entryComparator, 2, this._onMove);
+      this._verify();
+      return this;
    }
-   static heapify<T>(arr: T[], comparator: CompareFn<T> = defaultComparator): void {
-      _heapify(arr, comparator);
+
+   /**
+    * Removes the item of a handle from the heap. The handle becomes invalid.
+    * @param handle The handle returned by `push`.
+    * @returns True if the item was removed, false if the handle was not in this heap.
+    * @complexity O(log n)
+    */
+   remove(handle: HeapHandle<T>): boolean {
+      if (!this.contains(handle)) return false;
+      this._removeAt((handle as HeapEntry<T>).index);
+      return true;
    }
-   static heapPush<T>(arr: T[], item: T, comparator: CompareFn<T> = defaultComparator): void {
-      arr.push(item);
-      _siftUp(arr, arr.length - 1, comparator);
+
+   /**
+    * Checks whether the heap contains the specified item.
+    * @param item The item to look for.
+    * @returns True if the item is in the heap.
+    * @complexity O(1)
+    */
+   has(item: T): boolean {
+      return this._counts.has(item);
    }
-   static heapPop<T>(arr: T[], comparator: CompareFn<T> = defaultComparator): T | undefined {
-      if (arr.length === 0) return undefined;
 
-      const last = arr.pop();
+   /**
+    * Checks whether a handle still refers to an item in this heap.
+    * @param handle The handle returned by `push`.
+    * @returns True if the handle is valid for this heap.
+    */
+   contains(handle: HeapHandle<T>): boolean {
+      const { index } = handle as HeapEntry<T>;
+      return index >= 0 && this._data[index] === handle;
+   }
 
-      if (arr.length > 0) {
-         const returnitem = arr[0];
-         arr[0] = last!;
-         _siftDown(arr, 0, arr.length, comparator);
-         return returnitem;
+   /**
+    * Checks that every item sorts at or after its parent, e.g. after items were mutated in place.
+    * @returns True if the heap property holds.
+    * @complexity O(n)
+    */
+   isValid(): boolean {
+      return _findViolation(this._data, this._entryComparator) === -1;
+   }
+
+   /**
+    * Returns an iterable of the items in heap (array) order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *values(): IterableIterator<T> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._data.length; i++) {
+         yield this._data[i].item;
+         this._checkModification(expected);
       }
+   }
 
-      return last;
+   /**
+    * Returns an iterable of [index, item] pairs in heap (array) order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *entries(): IterableIterator<[number, T]> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._data.length; i++) {
+         yield [i, this._data[i].item];
+         this._checkModification(expected);
+      }
    }
 
-   static heapPushPop<T>(arr: T[], item: T, comparator: CompareFn<T> = defaultComparator): T | undefined {
-      if (arr.length > 0 && comparator(arr[0], item) < 0) {
-         const returnitem = arr[0];
-         arr[0] = item;
-         _siftDown(arr, 0, arr.length, comparator);
-         return returnitem;
+   /**
+    * Returns an iterable of the indices in the heap.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *keys(): IterableIterator<number> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._data.length; i++) {
+         yield i;
+         this._checkModification(expected);
       }
-      return item;
    }
 
-   static heapReplace<T>(arr: T[], item: T, comparator: CompareFn<T> = defaultComparator): T | undefined {
-      return _replace(arr, item, comparator);
+   [Symbol.iterator](): IterableIterator<T> {
+      return this.values();
+   }
+
+   /**
+    * Removes all items. Every outstanding handle becomes invalid.
+    */
+   clear(): void {
+      this._modCount++;
+      for (const entry of this._data) {
+         entry.index = -1;
+      }
+      this._data.length = 0;
+      this._counts.clear();
+   }
+
+   toArray(): T[] {
+      return this._data.map(entry => entry.item);
+   }
+
+   toString(): string {
+      return `IndexedHeap(${this._data.length}) [${this.toArray().join(', ')}]`;
+   }
+
+   /**
+    * Resolves a handle to its entry.
+    * @throws {Error} If the handle is not in this heap.
+    */
+   private _entry(handle: HeapHandle<T>): HeapEntry<T> {
+      if (!this.contains(handle)) {
+         throw new Error('Handle does not belong to this heap');
+      }
+      return handle as HeapEntry<T>;
+   }
+
+   private _setItem(entry: HeapEntry<T>, item: T): void {
+      this._modCount++;
+      this._count(entry.item, -1);
+      this._count(item, 1);
+      entry.item = item;
+   }
+
+   /**
+    * Removes the entry at the given index by moving the last entry into its place.
+    */
+   private _removeAt(index: number): void {
+      this._modCount++;
+      const entry = this._data[index];
+      const last = this._data.pop() as HeapEntry<T>;
+      entry.index = -1;
+      this._count(entry.item, -1);
+
+      if (index < this._data.length) {
+         this._data[index] = last;
+         last.index = index;
+         if (index > 0 && this._entryComparator(last, this._data[(index - 1) >> 1]) < 0) {
+            _siftUp(this._data, index, this._entryComparator, 2, this._onMove);
+         } else {
+            _siftDown(this._data, index, this._data.length, this._entryComparator, 2, this._onMove);
+         }
+      }
+      this._verify();
+   }
+
+   /**
+    * Re-validates the whole heap after a mutation in debug mode.
+    * @throws {HeapInvariantError} If the heap property or the comparator's transitivity is broken.
+    */
+   private _verify(): void {
+      if (this._debug) {
+         _verifyHeap(this._data, this._entryComparator, 2, entry => entry.item);
+      }
+   }
+
+   private _count(item: T, delta: number): void {
+      const count = (this._counts.get(item) ?? 0) + delta;
+      if (count > 0) {
+         this._counts.set(item, count);
+      } else {
+         this._counts.delete(item);
+      }
+   }
+
+   /**
+    * Throws if the heap was modified since an iterator started, unless fail-fast is disabled.
+    * @param expected The modification count observed when the iterator started.
+    */
+   private _checkModification(expected: number): void {
+      if (this._failFast && this._modCount !== expected) {
+         throw new ConcurrentModificationError('IndexedHeap');
+      }
+   }
+}
+
+/**
+ * Follows the forwarding chain of a pairing heap owner token, halving the path as it goes.
+ */
+const _ownerOf = (owner: PairingOwner): PairingOwner => {
+   while (owner.next) {
+      if (owner.next.next) owner.next = owner.next.next;
+      owner = owner.next;
+   }
+   return owner;
+};
+
+/**
+ * PairingHeap is a heap-ordered multiway tree. Unlike the array-backed `Heap`, two pairing heaps
+ * can be melded in O(1), and items can be moved up or removed through the handles returned by `insert`.
+ * `push` and `meld` are O(1); `pop`, `decreaseKey` and `remove` are amortized O(log n).
+ *
+ * Each node links to its first child, its next sibling and `prev` (the parent for a first child,
+ * the left sibling otherwise). Nodes point to an owner token of their heap; `meld` forwards the
+ * melded heap's token to this heap's, so handles stay valid without visiting every node.
+ *
+ * @template T - The type of items in the heap.
+ * @example
+ * const a = new PairingHeap<number>([5, 1]);
+ * const b = new PairingHeap<number>([3]);
+ * const handle = b.insert(8);
+ * a.meld(b); // b is now empty
+ * a.decreaseKey(handle, 0);
+ * console.log([...a.drain()]); // [0, 1, 3, 5]
+ */
+class PairingHeap<T> implements IPairingHeap<T> {
+   private _root: PairingNode<T> | undefined = undefined;
+   private _size = 0;
+   private _owner: PairingOwner = {};
+   private readonly _comparator: CompareFn<T>;
+   private readonly _nodeComparator: CompareFn<PairingNode<T>>;
+   private readonly _failFast: boolean;
+   private readonly _debug: boolean;
+   private _modCount = 0;
+
+   // Shared by all pairing heaps, so FIFO order stays meaningful across melded heaps.
+   private static _sequence = 0;
+
+   /**
+    * Creates a new pairing heap.
+    * @param iterable The initial items, or the comparator/options when no items are given.
+    * @param options A comparator function, or an options object with `comparator` or `key`, `reverse`, `stable`,
+    *                `failFast` and `debug`. As in `Heap`, `debug` re-validates the tree after every mutation.
+    */
+   constructor(iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>, options?: CompareFn<T> | HeapOptions<T>) {
+      if (iterable !== undefined && !isIterable(iterable)) {
+         options = iterable;
+         iterable = undefined;
+      }
+
+      const { comparator, failFast = true, stable = false, debug } = _heapOptions(options);
+      this._comparator = comparator;
+      this._nodeComparator = stable
+         ? (a, b): number => comparator(a.item, b.item) || a.sequence - b.sequence
+         : (a, b): number => comparator(a.item, b.item);
+      this._failFast = failFast;
+      this._debug = debug;
+
+      if (iterable) {
+         for (const item of iterable) {
+            this.insert(item);
+         }
+      }
+   }
+
+   /**
+    * Creates a pairing heap from an iterable.
+    * @param iterable The initial items.
+    * @param options A comparator function, or an options object.
+    * @returns A new pairing heap containing the items.
+    */
+   static from<T>(iterable: Iterable<T>, options?: CompareFn<T> | HeapOptions<T>): PairingHeap<T> {
+      return new PairingHeap<T>(iterable, options);
+   }
+
+   get size(): number {
+      return this._size;
+   }
+
+   get isEmpty(): boolean {
+      return this._size === 0;
+   }
+
+   /**
+    * Adds an item to the heap.
+    * @complexity O(1)
+    */
+   push(item: T): this {
+      this.insert(item);
+      return this;
+   }
+
+   /**
+    * Adds an item to the heap and returns a handle for `decreaseKey` and `remove`.
+    * @param item The item to add.
+    * @returns A handle to the item, valid until it is popped or removed.
+    * @complexity O(1)
+    */
+   insert(item: T): HeapHandle<T> {
+      this._modCount++;
+      const node: PairingNode<T> = { item, sequence: PairingHeap._sequence++, owner: this._owner };
+      this._root = this._root ? this._link(this._root, node) : node;
+      this._size++;
+      this._verify();
+      return node;
+   }
+
+   /**
+    * Removes and returns the root item. Its handle becomes invalid.
+    * @returns The root item, or undefined if the heap is empty.
+    * @complexity amortized O(log n)
+    */
+   pop(): T | undefined {
+      const root = this._root;
+      if (!root) return undefined;
+
+      this._modCount++;
+      this._root = this._mergePairs(root.child);
+      this._detach(root);
+      this._verify();
+      return root.item;
+   }
+
+   /**
+    * Peek at an item without removing it. Index 0 is the root; other indices follow iteration
+    * order and take O(index) to reach.
+    */
+   peek(index: number = 0): T | undefined {
+      if (index === 0) return this._root?.item;
+      if (index < 0 || index >= this._size) return undefined;
+
+      for (const node of this._nodes()) {
+         if (index-- === 0) return node.item;
+      }
+      return undefined;
+   }
+
+   replace(item: T): T | undefined {
+      const root = this.pop();
+      this.insert(item);
+      return root;
+   }
+
+   pushPop(item: T): T | undefined {
+      if (!this._root || this._comparator(item, this._root.item) < 0) {
+         return item;
+      }
+      const root = this.pop();
+      this.insert(item);
+      return root;
+   }
+
+   /**
+    * Adds the given items. A pairing heap needs no restructuring, so this is the same as pushing them.
+    * @complexity O(k) for k items
+    */
+   heapify(items?: T[]): this {
+      this._modCount++;
+      if (items) {
+         for (const item of items) {
+            this.insert(item);
+         }
+      }
+      return this;
+   }
+
+   /**
+    * Moves every item of another pairing heap into this one, leaving the other heap empty.
+    * Handles from the other heap stay valid and now refer to this heap.
+    * Both heaps are expected to use the same ordering.
+    * @param other The heap to meld into this one.
+    * @returns The heap instance.
+    * @throws {TypeError} If `other` is not a PairingHeap.
+    * @complexity O(1)
+    */
+   meld(other: IPairingHeap<T>): this {
+      if (!(other instanceof PairingHeap)) {
+         throw new TypeError('meld expects a PairingHeap');
+      }
+      if (other === this || !other._root) return this;
+
+      this._modCount++;
+      other._modCount++;
+      other._owner.next = this._owner;
+      other._owner = {};
+      this._root = this._root ? this._link(this._root, other._root) : other._root;
+      this._size += other._size;
+      other._root = undefined;
+      other._size = 0;
+      this._verify();
+      return this;
+   }
+
+   /**
+    * Replaces the item of a handle with one that sorts no later, moving it to the top level.
+    * @param handle The handle returned by `insert`.
+    * @param item The new item.
+    * @returns The heap instance.
+    * @throws {Error} If the handle is not in this heap.
+    * @throws {RangeError} If the new item sorts after the current one.
+    * @complexity O(1), amortized O(log n)
+    */
+   decreaseKey(handle: HeapHandle<T>, item: T): this {
+      const node = this._node(handle);
+      if (this._comparator(item, node.item) > 0) {
+         throw new RangeError('decreaseKey: the new item sorts after the current one');
+      }
+
+      this._modCount++;
+      node.item = item;
+      if (node !== this._root) {
+         this._cut(node);
+         this._root = this._link(this._root as PairingNode<T>, node);
+      }
+      this._verify();
+      return this;
+   }
+
+   /**
+    * Removes the item of a handle from the heap. The handle becomes invalid.
+    * @param handle The handle returned by `insert`.
+    * @returns True if the item was removed, false if the handle was not in this heap.
+    * @complexity amortized O(log n)
+    */
+   remove(handle: HeapHandle<T>): boolean {
+      if (!this.contains(handle)) return false;
+
+      const node = handle as PairingNode<T>;
+      if (node === this._root) {
+         this.pop();
+         return true;
+      }
+
+      this._modCount++;
+      this._cut(node);
+      const subtree = this._mergePairs(node.child);
+      this._detach(node);
+      if (subtree) {
+         this._root = this._link(this._root as PairingNode<T>, subtree);
+      }
+      this._verify();
+      return true;
+   }
+
+   /**
+    * Checks whether a handle still refers to an item in this heap.
+    * @param handle The handle returned by `insert`.
+    * @returns True if the handle is valid for this heap.
+    */
+   contains(handle: HeapHandle<T>): boolean {
+      const { owner } = handle as PairingNode<T>;
+      return owner !== undefined && _ownerOf(owner) === this._owner;
+   }
+
+   /**
+    * Checks that every item sorts at or after its parent, e.g. after items were mutated in place.
+    * @returns True if the heap property holds.
+    * @complexity O(n)
+    */
+   isValid(): boolean {
+      return this._findViolation() === undefined;
+   }
+
+   sort(): T[] {
+      return [...this._nodes()].sort(this._nodeComparator).map(node => node.item);
+   }
+
+   nsmallest(n: number): T[] {
+      return _nsmallest(n, this.toArray(), this._comparator);
+   }
+
+   nlargest(n: number): T[] {
+      return _nlargest(n, this.toArray(), this._comparator);
+   }
+
+   /**
+    * Returns an iterable of the items in tree (pre-)order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *values(): IterableIterator<T> {
+      const expected = this._modCount;
+      for (const node of this._nodes()) {
+         yield node.item;
+         this._checkModification(expected);
+      }
+   }
+
+   /**
+    * Returns an iterable of [index, item] pairs in tree (pre-)order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *entries(): IterableIterator<[number, T]> {
+      const expected = this._modCount;
+      let index = 0;
+      for (const node of this._nodes()) {
+         yield [index++, node.item];
+         this._checkModification(expected);
+      }
+   }
+
+   /**
+    * Returns an iterable of the indices in the heap.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *keys(): IterableIterator<number> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._size; i++) {
+         yield i;
+         this._checkModification(expected);
+      }
+   }
+
+   /**
+    * Lazily yields the items in priority order without modifying the heap.
+    * An auxiliary binary heap holds the frontier of the tree: popping a node yields its item
+    * and pushes its children.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *sortedValues(): IterableIterator<T> {
+      if (!this._root) return;
+
+      const expected = this._modCount;
+      const frontier: PairingNode<T>[] = [this._root];
+
+      while (frontier.length > 0) {
+         const node = frontier[0];
+         const last = frontier.pop() as PairingNode<T>;
+         if (frontier.length > 0) {
+            frontier[0] = last;
+            _siftDown(frontier, 0, frontier.length, this._nodeComparator);
+         }
+
+         yield node.item;
+         this._checkModification(expected);
+
+         for (let child = node.child; child; child = child.sibling) {
+            frontier.push(child);
+            _siftUp(frontier, frontier.length - 1, this._nodeComparator);
+         }
+      }
+   }
+
+   /**
+    * Removes and yields the items in priority order until the heap is empty.
+    * @complexity amortized O(log n) per item
+    */
+   *drain(): IterableIterator<T> {
+      while (!this.isEmpty) {
+         yield this.pop() as T;
+      }
+   }
+
+   [Symbol.iterator](): IterableIterator<T> {
+      return this.values();
+   }
+
+   /**
+    * Removes every item. Existing handles become invalid.
+    */
+   clear(): void {
+      this._modCount++;
+      this._root = undefined;
+      this._size = 0;
+      this._owner = {};
+   }
+
+   toArray(): T[] {
+      return [...this.values()];
+   }
+
+   toString(): string {
+      return `PairingHeap(${this._size}) [${this.toArray().join(', ')}]`;
+   }
+
+   /**
+    * Resolves a handle to its node.
+    * @throws {Error} If the handle is not in this heap.
+    */
+   private _node(handle: HeapHandle<T>): PairingNode<T> {
+      if (!this.contains(handle)) {
+         throw new Error('Handle does not belong to this heap');
+      }
+      return handle as PairingNode<T>;
+   }
+
+   /**
+    * Finds the first node that sorts before its parent.
+    * @returns The offending child and its parent, or undefined if the heap property holds.
+    */
+   private _findViolation(): [child: PairingNode<T>, parent: PairingNode<T>] | undefined {
+      const stack = this._root ? [this._root] : [];
+      while (stack.length > 0) {
+         const parent = stack.pop() as PairingNode<T>;
+         for (let child = parent.child; child; child = child.sibling) {
+            if (this._nodeComparator(child, parent) < 0) return [child, parent];
+            stack.push(child);
+         }
+      }
+      return undefined;
+   }
+
+   /**
+    * Re-validates the whole tree after a mutation in debug mode.
+    * @throws {HeapInvariantError} If a node sorts before its parent.
+    */
+   private _verify(): void {
+      const violation = this._debug ? this._findViolation() : undefined;
+      if (violation) {
+         const [child, parent] = violation;
+         throw new HeapInvariantError(
+            `Heap property violated: ${_describe(child.item)} sorts before its parent ${_describe(parent.item)}`
+         );
+      }
+   }
+
+   /**
+    * Yields the nodes in pre-order.
+    */
+   private *_nodes(): IterableIterator<PairingNode<T>> {
+      const stack = this._root ? [this._root] : [];
+      while (stack.length > 0) {
+         const node = stack.pop() as PairingNode<T>;
+         yield node;
+         if (node.sibling) stack.push(node.sibling);
+         if (node.child) stack.push(node.child);
+      }
+   }
+
+   /**
+    * Links two roots: the one that sorts later becomes the first child of the other.
+    * @returns The new root.
+    */
+   private _link(a: PairingNode<T>, b: PairingNode<T>): PairingNode<T> {
+      if (this._nodeComparator(b, a) < 0) {
+         [a, b] = [b, a];
+      }
+      b.prev = a;
+      b.sibling = a.child;
+      if (a.child) a.child.prev = b;
+      a.child = b;
+      return a;
+   }
+
+   /**
+    * Combines a list of siblings into one tree: link them in pairs left to right,
+    * then link the pairs right to left.
+    * @returns The new root, or undefined if the list is empty.
+    */
+   private _mergePairs(first: PairingNode<T> | undefined): PairingNode<T> | undefined {
+      const pairs: PairingNode<T>[] = [];
+      while (first) {
+         const a = first;
+         const b = a.sibling;
+         first = b?.sibling;
+         a.prev = a.sibling = undefined;
+         if (b) {
+            b.prev = b.sibling = undefined;
+            pairs.push(this._link(a, b));
+         } else {
+            pairs.push(a);
+         }
+      }
+
+      let root = pairs.pop();
+      while (pairs.length > 0) {
+         root = this._link(pairs.pop() as PairingNode<T>, root as PairingNode<T>);
+      }
+      return root;
+   }
+
+   /**
+    * Unlinks a non-root node, with its subtree, from its parent and siblings.
+    */
+   private _cut(node: PairingNode<T>): void {
+      const prev = node.prev as PairingNode<T>;
+      if (prev.child === node) {
+         prev.child = node.sibling;
+      } else {
+         prev.sibling = node.sibling;
+      }
+      if (node.sibling) node.sibling.prev = prev;
+      node.prev = node.sibling = undefined;
+   }
+
+   /**
+    * Marks a node that has left the heap, so its handle becomes invalid.
+    */
+   private _detach(node: PairingNode<T>): void {
+      node.child = node.prev = node.sibling = undefined;
+      node.owner = undefined;
+      this._size--;
+   }
+
+   /**
+    * Throws if the heap was modified since an iterator started, unless fail-fast is disabled.
+    * @param expected The modification count observed when the iterator started.
+    */
+   private _checkModification(expected: number): void {
+      if (this._failFast && this._modCount !== expected) {
+         throw new ConcurrentModificationError('PairingHeap');
+      }
+   }
+}
+
+/**
+ * Whether an index of a min-max heap sits on a min level. Even depths (the root, its grandchildren...)
+ * are min levels and odd depths are max levels.
+ */
+const _isMinLevel = (index: number): boolean => (31 - Math.clz32(index + 1)) % 2 === 0;
+
+/**
+ * MinMaxHeap is a double-ended priority queue: both the smallest and the largest item can be
+ * peeked in O(1) and popped in O(log n). It is a single array whose levels alternate between
+ * min levels, where an item sorts before all of its descendants, and max levels, where it sorts after them.
+ *
+ * With `maxSize`, pushing onto a full heap drops the worst (largest) item, which makes it a
+ * bounded "keep the best n" buffer.
+ *
+ * @template T - The type of items in the heap.
+ * @example
+ * const leaderboard = new MinMaxHeap<Score>({ key: score => score.points, reverse: true, maxSize: 10 });
+ * scores.forEach(score => leaderboard.push(score));
+ * leaderboard.peekMin(); // the best score
+ * leaderboard.peekMax(); // the 10th best score
+ */
+class MinMaxHeap<T> implements IMinMaxHeap<T> {
+   private _data: T[] = [];
+   private readonly _comparator: CompareFn<T>;
+   private readonly _maxSize: number | undefined;
+   private readonly _onEvict: EvictCallback<T> | undefined;
+   private readonly _failFast: boolean;
+   private readonly _debug: boolean;
+   private _modCount = 0;
+
+   /**
+    * Creates a new min-max heap.
+    * @param iterable The initial items, or the comparator/options when no items are given.
+    * @param options A comparator function, or an options object with `comparator` or `key`, `reverse`, `failFast`,
+    *                `debug`, `maxSize` and an `onEvict` callback for items dropped on overflow.
+    *                In debug mode the level order is re-checked after every mutation.
+    * @throws {RangeError} If `maxSize` is not a non-negative integer.
+    */
+   constructor(
+      iterable?: Iterable<T> | CompareFn<T> | MinMaxHeapOptions<T>,
+      options?: CompareFn<T> | MinMaxHeapOptions<T>
+   ) {
+      if (iterable !== undefined && !isIterable(iterable)) {
+         options = iterable;
+         iterable = undefined;
+      }
+
+      const { comparator, failFast = true, debug } = _heapOptions(options);
+      const { maxSize, onEvict }: MinMaxHeapOptions<T> = typeof options == 'function' ? {} : options || {};
+      if (maxSize !== undefined && (!Number.isInteger(maxSize) || maxSize < 0)) {
+         throw new RangeError('maxSize must be a non-negative integer');
+      }
+
+      this._comparator = comparator;
+      this._maxSize = maxSize;
+      this._onEvict = onEvict;
+      this._failFast = failFast;
+      this._debug = debug;
+
+      if (iterable) {
+         this._data = Array.from(iterable);
+         for (let i = Math.floor(this._data.length / 2) - 1; i >= 0; i--) {
+            this._trickleDown(i);
+         }
+         this._verify();
+         while (maxSize !== undefined && this._data.length > maxSize) {
+            this._evict(this.popMax() as T);
+         }
+      }
+   }
+
+   /**
+    * Creates a min-max heap from an iterable.
+    * @param iterable The initial items.
+    * @param options A comparator function, or an options object.
+    * @returns A new min-max heap containing the items.
+    */
+   static from<T>(iterable: Iterable<T>, options?: CompareFn<T> | MinMaxHeapOptions<T>): MinMaxHeap<T> {
+      return new MinMaxHeap<T>(iterable, options);
+   }
+
+   get size(): number {
+      return this._data.length;
+   }
+
+   get isEmpty(): boolean {
+      return this._data.length === 0;
+   }
+
+   /**
+    * Gets the maximum number of items, or undefined if the heap is unbounded.
+    */
+   get maxSize(): number | undefined {
+      return this._maxSize;
+   }
+
+   /**
+    * Gets whether the heap holds `maxSize` items.
+    */
+   get isFull(): boolean {
+      return this._maxSize !== undefined && this._data.length >= this._maxSize;
+   }
+
+   /**
+    * Adds an item to the heap.
+    * If the heap is full, the largest item is evicted first; when the new item sorts at or after
+    * the current largest, the new item itself is evicted instead.
+    * @param item The item to add.
+    * @returns The heap instance.
+    * @complexity O(log n)
+    */
+   push(item: T): this {
+      if (this.isFull) {
+         if (this._data.length === 0 || this._comparator(item, this._data[this._maxIndex()]) >= 0) {
+            this._evict(item);
+            return this;
+         }
+         this._evict(this.popMax() as T);
+      }
+      this._modCount++;
+      this._data.push(item);
+      this._bubbleUp(this._data.length - 1);
+      this._verify();
+      return this;
+   }
+
+   /**
+    * Removes and returns the smallest item.
+    * @complexity O(log n)
+    */
+   popMin(): T | undefined {
+      return this._data.length === 0 ? undefined : this._removeAt(0);
+   }
+
+   /**
+    * Removes and returns the largest item.
+    * @complexity O(log n)
+    */
+   popMax(): T | undefined {
+      return this._data.length === 0 ? undefined : this._removeAt(this._maxIndex());
+   }
+
+   /**
+    * Returns the smallest item without removing it.
+    * @complexity O(1)
+    */
+   peekMin(): T | undefined {
+      return this._data[0];
+   }
+
+   /**
+    * Returns the largest item without removing it.
+    * @complexity O(1)
+    */
+   peekMax(): T | undefined {
+      return this._data.length === 0 ? undefined : this._data[this._maxIndex()];
+   }
+
+   /**
+    * Checks the level order: every item sorts at or after its min-level ancestors and at or before
+    * its max-level ancestors, e.g. after items were mutated in place.
+    * @returns True if the min-max heap property holds.
+    * @complexity O(n)
+    */
+   isValid(): boolean {
+      return this._findViolation() === undefined;
+   }
+
+   /**
+    * Returns an iterable of the items in heap (array) order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *values(): IterableIterator<T> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._data.length; i++) {
+         yield this._data[i];
+         this._checkModification(expected);
+      }
+   }
+
+   /**
+    * Returns an iterable of [index, item] pairs in heap (array) order.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *entries(): IterableIterator<[number, T]> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._data.length; i++) {
+         yield [i, this._data[i]];
+         this._checkModification(expected);
+      }
+   }
+
+   /**
+    * Returns an iterable of the indices in the heap.
+    * @throws {ConcurrentModificationError} If the heap is modified during iteration.
+    */
+   *keys(): IterableIterator<number> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._data.length; i++) {
+         yield i;
+         this._checkModification(expected);
+      }
+   }
+
+   [Symbol.iterator](): IterableIterator<T> {
+      return this.values();
+   }
+
+   clear(): void {
+      this._modCount++;
+      this._data.length = 0;
+   }
+
+   toArray(): T[] {
+      return [...this._data];
+   }
+
+   toString(): string {
+      return `MinMaxHeap(${this._data.length}) [${this._data.join(', ')}]`;
+   }
+
+   /**
+    * Whether `a` belongs closer to the root than `b` on a min level (`min`) or a max level.
+    */
+   private _before(a: T, b: T, min: boolean): boolean {
+      const order = this._comparator(a, b);
+      return min ? order < 0 : order > 0;
+   }
+
+   /**
+    * Finds the first item on the wrong side of its parent or grandparent. Checking those two is
+    * enough, since every further ancestor is reached through them.
+    * @returns The index of the offending item and of the ancestor it conflicts with, or undefined if the order holds.
+    */
+   private _findViolation(): [index: number, ancestor: number] | undefined {
+      const data = this._data;
+      for (let i = 1; i < data.length; i++) {
+         const parent = (i - 1) >> 1;
+         if (this._before(data[i], data[parent], _isMinLevel(parent))) return [i, parent];
+
+         const grandparent = (parent - 1) >> 1;
+         if (parent > 0 && this._before(data[i], data[grandparent], _isMinLevel(grandparent))) {
+            return [i, grandparent];
+         }
+      }
+      return undefined;
+   }
+
+   /**
+    * Gets the index of the largest item, which is one of the root's children (or the root itself).
+    */
+   private _maxIndex(): number {
+      const data = this._data;
+      if (data.length <= 2) return data.length - 1;
+      return this._comparator(data[1], data[2]) >= 0 ? 1 : 2;
+   }
+
+   private _swap(i: number, j: number): void {
+      const item = this._data[i];
+      this._data[i] = this._data[j];
+      this._data[j] = item;
+   }
+
+   /**
+    * Moves a new item up: first across to the other kind of level if it belongs there,
+    * then up through its grandparents.
+    */
+   private _bubbleUp(index: number): void {
+      if (index === 0) return;
+      const data = this._data;
+      let min = _isMinLevel(index);
+      const parent = (index - 1) >> 1;
+      if (this._before(data[parent], data[index], min)) {
+         this._swap(index, parent);
+         index = parent;
+         min = !min;
+      }
+
+      while (index > 2) {
+         const grandparent = (((index - 1) >> 1) - 1) >> 1;
+         if (!this._before(data[index], data[grandparent], min)) break;
+         this._swap(index, grandparent);
+         index = grandparent;
+      }
+   }
+
+   /**
+    * Moves an item down to the best of its children and grandchildren until the level order holds.
+    */
+   private _trickleDown(index: number): void {
+      const data = this._data;
+      const length = data.length;
+      const min = _isMinLevel(index);
+
+      while (2 * index + 1 < length) {
+         const child = 2 * index + 1;
+         const grandchild = 2 * child + 1;
+         let best = child;
+         if (child + 1 < length && this._before(data[child + 1], data[best], min)) {
+            best = child + 1;
+         }
+         for (let i = grandchild; i < grandchild + 4 && i < length; i++) {
+            if (this._before(data[i], data[best], min)) best = i;
+         }
+
+         if (!this._before(data[best], data[index], min)) break;
+         this._swap(best, index);
+         if (best < grandchild) break;
+
+         const parent = (best - 1) >> 1;
+         if (this._before(data[parent], data[best], min)) {
+            this._swap(best, parent);
+         }
+         index = best;
+      }
+   }
+
+   /**
+    * Removes the item at the given index by moving the last item into its place.
+    */
+   private _removeAt(index: number): T {
+      this._modCount++;
+      const item = this._data[index];
+      const last = this._data.pop() as T;
+      if (index < this._data.length) {
+         this._data[index] = last;
+         this._trickleDown(index);
+      }
+      this._verify();
+      return item;
+   }
+
+   /**
+    * Re-validates the whole level order after a mutation in debug mode.
+    * @throws {HeapInvariantError} If an item is on the wrong side of its parent or grandparent.
+    */
+   private _verify(): void {
+      const violation = this._debug ? this._findViolation() : undefined;
+      if (violation) {
+         const [index, ancestor] = violation;
+         const relation = _isMinLevel(ancestor) ? 'before its min-level' : 'after its max-level';
+         throw new HeapInvariantError(
+            `Min-max heap property violated: ${_describe(this._data[index])} at index ${index} sorts ` +
+               `${relation} ancestor ${_describe(this._data[ancestor])} at index ${ancestor}`
+         );
+      }
+   }
+
+   private _evict(item: T): void {
+      if (this._onEvict) {
+         this._onEvict(item);
+      }
+   }
+
+   /**
+    * Throws if the heap was modified since an iterator started, unless fail-fast is disabled.
+    * @param expected The modification count observed when the iterator started.
+    */
+   private _checkModification(expected: number): void {
+      if (this._failFast && this._modCount !== expected) {
+         throw new ConcurrentModificationError('MinMaxHeap');
+      }
+   }
+}
+
+/**
+ * TopK keeps the k largest items of a stream (the k smallest with `reverse`) in O(k) memory.
+ * Unlike `heapq.nlargest`, items arrive one at a time and the current top k can be read at any point,
+ * which suits leaderboards and "top N" metrics over data that never sits in memory at once.
+ *
+ * The kept items form a min-heap whose root is the weakest of them, so a new item only has to beat
+ * the root to get in. Accumulators built over different shards of the data can be combined with `merge`.
+ * Among equal items, the ones added first are kept.
+ *
+ * @template T - The type of items tracked.
+ * @example
+ * const popular = new TopK<Page>(10, { key: page => page.views });
+ * pages.forEach(page => popular.add(page));
+ * popular.toArray(); // the 10 most viewed pages, most viewed first
+ *
+ * Time Complexity:
+ * - add: O(log k)
+ * - addAll, merge: O(n log k) for n items
+ * - peek: O(1)
+ * - toArray: O(k log k)
+ */
+class TopK<T> implements ITopK<T> {
+   private readonly _data: T[] = [];
+   private readonly _k: number;
+   private readonly _comparator: CompareFn<T>;
+
+   /**
+    * Creates a new top-k accumulator.
+    * @param k The number of items to keep.
+    * @param options A comparator function, or an options object with `comparator` or `key` and `reverse`.
+    * @throws {RangeError} If `k` is not a non-negative integer.
+    */
+   constructor(k: number, options?: CompareFn<T> | TopKOptions<T>) {
+      if (!Number.isInteger(k) || k < 0) {
+         throw new RangeError('k must be a non-negative integer');
+      }
+      this._k = k;
+      this._comparator = _heapOptions(options).comparator;
+   }
+
+   /**
+    * Creates a top-k accumulator from an iterable.
+    * @param iterable The initial items.
+    * @param k The number of items to keep.
+    * @param options A comparator function, or an options object.
+    * @returns A new accumulator holding the top k items.
+    */
+   static from<T>(iterable: Iterable<T>, k: number, options?: CompareFn<T> | TopKOptions<T>): TopK<T> {
+      return new TopK<T>(k, options).addAll(iterable);
+   }
+
+   /**
+    * Gets the number of items kept.
+    */
+   get k(): number {
+      return this._k;
+   }
+
+   get size(): number {
+      return this._data.length;
+   }
+
+   get isEmpty(): boolean {
+      return this._data.length === 0;
+   }
+
+   /**
+    * Gets whether `k` items are kept, so new items have to beat `peek()` to get in.
+    */
+   get isFull(): boolean {
+      return this._data.length >= this._k;
+   }
+
+   /**
+    * Offers an item. Once k items are kept, it replaces the weakest one if it sorts after it.
+    * @param item The item to add.
+    * @returns The accumulator instance.
+    * @complexity O(log k)
+    */
+   add(item: T): this {
+      if (!this.isFull) {
+         this._data.push(item);
+         _siftUp(this._data, this._data.length - 1, this._comparator);
+      } else if (this._k > 0 && this._comparator(this._data[0], item) < 0) {
+         _replace(this._data, item, this._comparator);
+      }
+      return this;
+   }
+
+   /**
+    * Offers every item of an iterable. The heap is built in one pass while it fills up.
+    * @param items The items to add.
+    * @returns The accumulator instance.
+    * @complexity O(n log k)
+    */
+   addAll(items: Iterable<T>): this {
+      const data = this._data;
+      let heapified = true;
+      for (const item of items) {
+         if (!this.isFull) {
+            data.push(item);
+            heapified = false;
+            continue;
+         }
+         if (this._k === 0) return this;
+         if (!heapified) {
+            _heapify(data, this._comparator);
+            heapified = true;
+         }
+         if (this._comparator(data[0], item) < 0) {
+            _replace(data, item, this._comparator);
+         }
+      }
+      if (!heapified) _heapify(data, this._comparator);
+      return this;
+   }
+
+   /**
+    * Adds the items kept by another accumulator, for example one built over another shard of the data.
+    * Both accumulators should use the same ordering; `other` is left unchanged.
+    * @param other The accumulator to merge in.
+    * @returns The accumulator instance.
+    * @throws {TypeError} If `other` is not a TopK.
+    * @complexity O(m log k) for m items in `other`
+    */
+   merge(other: ITopK<T>): this {
+      if (!(other instanceof TopK)) {
+         throw new TypeError('merge expects a TopK');
+      }
+      return other === this ? this : this.addAll(other._data);
+   }
+
+   /**
+    * Gets the weakest of the kept items, which a new item has to beat once the accumulator is full.
+    * @returns The weakest kept item, or undefined if none are kept.
+    * @complexity O(1)
+    */
+   peek(): T | undefined {
+      return this._data[0];
+   }
+
+   clear(): void {
+      this._data.length = 0;
+   }
+
+   /**
+    * Copies the kept items to an array, best first.
+    * @complexity O(k log k)
+    */
+   toArray(): T[] {
+      return [...this._data].sort((a, b) => this._comparator(b, a));
+   }
+
+   /**
+    * Iterates over a snapshot of the kept items, best first.
+    */
+   [Symbol.iterator](): IterableIterator<T> {
+      return this.toArray()[Symbol.iterator]();
+   }
+
+   toString(): string {
+      return `TopK(${this._k}) [${this.toArray().join(', ')}]`;
+   }
+}
+
+class HeapqStatic {
+   constructor() {
+      throw new Error('Heapq is a static class and cannot be instantiated.');
+   }
+   // =============================
+   // Static methods for Heap class
+   // =============================
+   static of<T>(...items: T[]): Heap<T> {
+      return new Heap<T>(items);
+   }
+   static from<T>(iterable: Iterable<T>, options?: CompareFn<T> | HeapOptions<T>): Heap<T> {
+      return new Heap<T>(iterable, options);
+   }
+   static isHeapq<T>(value: any): value is Heap<T> {
+      return value instanceof Heap;
+   }
+   /**
+    * Checks whether an array satisfies the heap property for a comparator, for example after
+    * items were mutated in place. Pass the same options (`stable`, `arity`) used to build the heap.
+    * @complexity O(n)
+    */
+   static isHeap<T>(arr: T[], options?: CompareFn<T> | HeapOptions<T>): boolean {
+      const { comparator, stable, arity } = _heapOptions(options);
+      if (stable) {
+         return _findViolation(arr as unknown as StableEntry<T>[], _stableComparator(comparator), arity) === -1;
+      }
+      return _findViolation(arr, comparator, arity) === -1;
+   }
+   /**
+    * Transforms an array into a heap in place.
+    * With `{ stable: true }` the array holds `[item, sequence]` entries built by `heapPush`.
+    * With `{ arity }` the array is a d-ary heap; every helper used on the same array needs the same arity.
+    * With `{ debug: true }` every helper checks the comparator and re-validates the array after mutating it.
+    */
+   static heapify<T>(arr: T[], options?: CompareFn<T> | HeapOptions<T>): void {
+      const { comparator, stable, arity, debug } = _heapOptions(options);
+      if (stable) {
+         HeapqStatic.heapify(arr as unknown as StableEntry<T>[], {
+            comparator: _stableComparator(comparator),
+            arity,
+            debug,
+         });
+         return;
+      }
+      _heapify(arr, comparator, arity);
+      if (debug) _verifyHeap(arr, comparator, arity);
+   }
+
+   /**
+    * Pushes an item onto a heap array.
+    * With `{ stable: true }` the item is stored as an `[item, sequence]` entry, so equal items pop in FIFO order.
+    */
+   static heapPush<T>(arr: T[], item: T, options?: CompareFn<T> | HeapOptions<T>): void {
+      const { comparator, stable, arity, debug } = _heapOptions(options);
+      if (stable) {
+         const entries = arr as unknown as StableEntry<T>[];
+         HeapqStatic.heapPush(entries, [item, _nextSequence(entries)], {
+            comparator: _stableComparator(comparator),
+            arity,
+            debug,
+         });
+         return;
+      }
+      arr.push(item);
+      _siftUp(arr, arr.length - 1, comparator, arity);
+      if (debug) _verifyHeap(arr, comparator, arity);
+   }
+
+   static heapPop<T>(arr: T[], options?: CompareFn<T> | HeapOptions<T>): T | undefined {
+      const { comparator, stable, arity, debug } = _heapOptions(options);
+      if (stable) {
+         const entries = arr as unknown as StableEntry<T>[];
+         return HeapqStatic.heapPop(entries, { comparator: _stableComparator(comparator), arity, debug })?.[0];
+      }
+      if (arr.length === 0) return undefined;
+
+      const last = arr.pop();
+
+      if (arr.length > 0) {
+         const returnitem = arr[0];
+         arr[0] = last!;
+         _siftDown(arr, 0, arr.length, comparator, arity);
+         if (debug) _verifyHeap(arr, comparator, arity);
+         return returnitem;
+      }
+
+      return last;
+   }
+
+   static heapPushPop<T>(arr: T[], item: T, options?: CompareFn<T> | HeapOptions<T>): T | undefined {
+      const { comparator, stable, arity, debug } = _heapOptions(options);
+      if (stable) {
+         const entries = arr as unknown as StableEntry<T>[];
+         return HeapqStatic.heapPushPop(entries, [item, _nextSequence(entries)], {
+            comparator: _stableComparator(comparator),
+            arity,
+            debug,
+         })?.[0];
+      }
+      if (arr.length > 0 && comparator(arr[0], item) < 0) {
+         const returnitem = arr[0];
+         arr[0] = item;
+         _siftDown(arr, 0, arr.length, comparator, arity);
+         if (debug) _verifyHeap(arr, comparator, arity);
+         return returnitem;
+      }
+      return item;
+   }
+
+   static heapReplace<T>(arr: T[], item: T, options?: CompareFn<T> | HeapOptions<T>): T | undefined {
+      const { comparator, stable, arity, debug } = _heapOptions(options);
+      if (stable) {
+         const entries = arr as unknown as StableEntry<T>[];
+         return HeapqStatic.heapReplace(entries, [item, _nextSequence(entries)], {
+            comparator: _stableComparator(comparator),
+            arity,
+            debug,
+         })?.[0];
+      }
+      const root = _replace(arr, item, comparator, arity);
+      if (debug) _verifyHeap(arr, comparator, arity);
+      return root;
+   }
+
+   /**
+    * Lazily merges already-sorted iterables into a single sorted iterator, like Python's `heapq.merge`.
+    * Equal items are yielded in input order. A trailing options object can set a `key`
+    * function and `reverse` for inputs sorted in descending order.
+    * @param iterables The sorted iterables, optionally followed by `{ key, reverse }`.
+    * @returns An iterator over the merged items.
+    * @complexity O(n log k) for n items across k iterables
+    */
+   static merge<T>(...iterables: (Iterable<T> | MergeOptions<T>)[]): IterableIterator<T> {
+      const [sources, comparator] = _mergeArgs<T, Iterable<T>>(iterables);
+      return _merge(sources, comparator);
+   }
+
+   /**
+    * Lazily merges already-sorted async (or sync) iterables into a single sorted async iterator.
+    * Same semantics as `merge`; the next item of a source is only requested once its previous item was yielded.
+    * @param iterables The sorted iterables, optionally followed by `{ key, reverse }`.
+    * @returns An async iterator over the merged items.
+    */
+   static mergeAsync<T>(...iterables: (AsyncIterable<T> | Iterable<T> | MergeOptions<T>)[]): AsyncIterableIterator<T> {
+      const [sources, comparator] = _mergeArgs<T, AsyncIterable<T> | Iterable<T>>(iterables);
+      return _mergeAsync(sources, comparator);
    }
 
    static nsmallest<T>(n: number, iterable: Iterable<T>, key?: KeyFn<T>): T[] {
-      const comparator = key ? (a: T, b: T) => key(a) - key(b) : defaultComparator;
-      return _nsmallest(n, iterable, comparator);
+      return _nsmallest(n, iterable, key ? keyComparator(key) : defaultComparator);
    }
 
    static nlargest<T>(n: number, iterable: Iterable<T>, key?: KeyFn<T>): T[] {
-      const comparator = key ? (a: T, b: T) => key(a) - key(b) : defaultComparator;
-      return _nlargest(n, iterable, comparator);
+      return _nlargest(n, iterable, key ? keyComparator(key) : defaultComparator);
    }
 }
 
 const heapq = HeapqStatic as any as HeapqConstructor & typeof HeapqStatic;
 
-export { Heap, heapq };
+export { Heap, IndexedHeap, MinMaxHeap, PairingHeap, TopK, heapq };
@@ -0,0 +1,352 @@
+import { INumericDeque, NumericDequeOptions } from '../interfaces/numericdeque.interfaces';
+import { NumericArray, NumericArrayConstructor } from '../types';
+import { ConcurrentModificationError, len, pow2AtLeast } from '../utils';
+
+/**
+ * NumericDeque is a double-ended queue of numbers backed by a typed array.
+ * It uses the same power-of-two ring buffer as `Deque`, but stores values unboxed
+ * in a `Float64Array` (default) or any other typed array selected with `arrayType`,
+ * which keeps GC pressure low for large time-series buffers.
+ *
+ * Values are coerced by the typed array, e.g. an `Int32Array` deque truncates `1.5` to `1`.
+ *
+ * @example
+ * const samples = new NumericDeque({ arrayType: Float32Array, maxlen: 1024 });
+ * samples.extend(new Float32Array([0.5, 0.25, 0.125]));
+ * samples.push(1);
+ * console.log(samples.toTypedArray()); // Float32Array [0.5, 0.25, 0.125, 1]
+ */
+class NumericDeque implements INumericDeque {
+   private _capacity: number;
+   private _length: number;
+   private _front: number;
+   private buffer: NumericArray;
+   private readonly _arrayType: NumericArrayConstructor;
+   private readonly _maxlen: number | undefined;
+   private readonly _failFast: boolean;
+   private _modCount = 0;
+
+   private static readonly MIN_CAPACITY = 16;
+   private static readonly MAX_CAPACITY = 1 << 30; // 2^30
+   private static readonly GROWTH_FACTOR = 1.5;
+   private static readonly GROWTH_CONSTANT = 16;
+
+   constructor(options: NumericDequeOptions = {}) {
+      const { arrayType = Float64Array, capacity = NumericDeque.MIN_CAPACITY, maxlen, failFast = true } = options;
+      if (maxlen !== undefined && (!Number.isInteger(maxlen) || maxlen < 0)) {
+         throw new RangeError('maxlen must be a non-negative integer');
+      }
+
+      this._arrayType = arrayType;
+      this._maxlen = maxlen;
+      this._failFast = failFast;
+      this._capacity = this._getCapacity(capacity);
+      this._length = 0;
+      this._front = 0;
+      this.buffer = new arrayType(this._capacity);
+   }
+
+   /**
+    * Creates a new numeric deque from an array, typed array or iterable of numbers.
+    * @param values The values to copy.
+    * @param options The deque options.
+    * @returns A new numeric deque containing the values.
+    */
+   static from(values: ArrayLike<number> | Iterable<number>, options: NumericDequeOptions = {}): NumericDeque {
+      const size = len(values as Iterable<number>) ?? 0;
+      const capacity = Math.max(options.capacity ?? 0, size);
+      return new NumericDeque({ ...options, capacity }).extend(values);
+   }
+
+   /**
+    * Gets whether the deque is empty.
+    */
+   get isEmpty(): boolean {
+      return this._length === 0;
+   }
+
+   /**
+    * Gets the size of the deque.
+    */
+   get size(): number {
+      return this._length;
+   }
+
+   /**
+    * Gets the number of slots in the internal typed array.
+    */
+   get capacity(): number {
+      return this._capacity;
+   }
+
+   /**
+    * Gets the maximum length of the deque, or undefined if it is unbounded.
+    */
+   get maxlen(): number | undefined {
+      return this._maxlen;
+   }
+
+   /**
+    * Gets whether the deque has reached its maximum length.
+    */
+   get isFull(): boolean {
+      return this._maxlen !== undefined && this._length >= this._maxlen;
+   }
+
+   /**
+    * Adds a value to the back of the deque.
+    * If the deque is full, the value at the front is dropped first.
+    * @param value The value to add.
+    * @returns The deque instance.
+    */
+   push(value: number): this {
+      if (this.isFull) {
+         if (this._length === 0) return this;
+         this.popLeft();
+      }
+      this._checkCapacity(this._length + 1);
+      this.buffer[(this._front + this._length) & (this._capacity - 1)] = value;
+      this._length++;
+      this._modCount++;
+      return this;
+   }
+
+   /**
+    * Adds a value to the front of the deque.
+    * If the deque is full, the value at the back is dropped first.
+    * @param value The value to add.
+    * @returns The deque instance.
+    */
+   pushLeft(value: number): this {
+      if (this.isFull) {
+         if (this._length === 0) return this;
+         this.pop();
+      }
+      this._checkCapacity(this._length + 1);
+      this._front = (this._front - 1 + this._capacity) & (this._capacity - 1);
+      this.buffer[this._front] = value;
+      this._length++;
+      this._modCount++;
+      return this;
+   }
+
+   /**
+    * Removes and returns the value at the back of the deque.
+    * @returns The value at the back of the deque, or undefined if the deque is empty.
+    */
+   pop(): number | undefined {
+      if (this.isEmpty) return undefined;
+      const index = (this._front + this._length - 1) & (this._capacity - 1);
+      this._length--;
+      this._modCount++;
+      return this.buffer[index];
+   }
+
+   /**
+    * Removes and returns the value at the front of the deque.
+    * @returns The value at the front of the deque, or undefined if the deque is empty.
+    */
+   popLeft(): number | undefined {
+      if (this.isEmpty) return undefined;
+      const value = this.buffer[this._front];
+      this._front = (this._front + 1) & (this._capacity - 1);
+      this._length--;
+      this._modCount++;
+      return value;
+   }
+
+   /**
+    * Get the value at the specified index. Negative indices count back from the end.
+    * @param index The index of the value to retrieve (default is 0).
+    * @returns The value at the specified index, or undefined if the index is out of bounds.
+    */
+   get(index: number = 0): number | undefined {
+      if (!Number.isInteger(index)) return undefined;
+      if (index < 0) {
+         index = this._length + index;
+      }
+      if (index < 0 || index >= this._length) {
+         return undefined;
+      }
+      return this.buffer[(this._front + index) & (this._capacity - 1)];
+   }
+
+   /**
+    * Sets the value at the specified index. Negative indices count back from the end.
+    * @param index The index of the value to set.
+    * @param value The new value.
+    * @returns The deque instance.
+    */
+   set(index: number, value: number): this {
+      if (!Number.isInteger(index)) {
+         throw new RangeError('Index must be an integer');
+      }
+      if (index < 0) {
+         index = this._length + index;
+      }
+      if (index < 0 || index >= this._length) {
+         throw new RangeError('Index out of bounds');
+      }
+      this.buffer[(this._front + index) & (this._capacity - 1)] = value;
+      return this;
+   }
+
+   /**
+    * Adds multiple values to the back of the deque.
+    * Typed arrays are copied in bulk with at most two `set()` calls.
+    * @param values The values to add.
+    * @returns The deque instance.
+    */
+   extend(values: ArrayLike<number> | Iterable<number>): this {
+      if (ArrayBuffer.isView(values) && !(values instanceof DataView)) {
+         this._extendTyped(values as NumericArray);
+      } else if (Symbol.iterator in Object(values)) {
+         for (const value of values as Iterable<number>) {
+            this.push(value);
+         }
+      } else {
+         const arrayLike = values as ArrayLike<number>;
+         for (let i = 0; i < arrayLike.length; i++) {
+            this.push(arrayLike[i]);
+         }
+      }
+      return this;
+   }
+
+   /**
+    * Adds multiple values to the front of the deque, one at a time.
+    * @param values The values to add.
+    * @returns The deque instance.
+    */
+   extendLeft(values: Iterable<number>): this {
+      for (const value of values) {
+         this.pushLeft(value);
+      }
+      return this;
+   }
+
+   /**
+    * Clears the deque. The internal typed array is kept for reuse.
+    */
+   clear(): void {
+      this._length = 0;
+      this._front = 0;
+      this._modCount++;
+   }
+
+   /**
+    * Converts the deque to a plain array.
+    * @returns An array containing all values in the deque.
+    */
+   toArray(): number[] {
+      const result = new Array<number>(this._length);
+      for (let i = 0; i < this._length; i++) {
+         result[i] = this.buffer[(this._front + i) & (this._capacity - 1)];
+      }
+      return result;
+   }
+
+   /**
+    * Copies the deque into a new typed array of the same type as the backing buffer.
+    * @returns A typed array containing all values in the deque.
+    */
+   toTypedArray(): NumericArray {
+      const result = new this._arrayType(this._length);
+      this._copyTo(result);
+      return result;
+   }
+
+   /**
+    * Returns an iterable of the values in the deque, from front to back.
+    * @throws {ConcurrentModificationError} If the deque is structurally modified during iteration.
+    */
+   *values(): IterableIterator<number> {
+      const expected = this._modCount;
+      for (let i = 0; i < this._length; i++) {
+         yield this.buffer[(this._front + i) & (this._capacity - 1)];
+         if (this._failFast && this._modCount !== expected) {
+            throw new ConcurrentModificationError('NumericDeque');
+         }
+      }
+   }
+
+   [Symbol.iterator](): IterableIterator<number> {
+      return this.values();
+   }
+
+   /**
+    * Appends a typed array with at most two bulk copies, one on each side of the wrap-around.
+    * @param source The values to append.
+    */
+   private _extendTyped(source: NumericArray): void {
+      let count = source.length;
+      if (this._maxlen !== undefined) {
+         if (count > this._maxlen) {
+            source = source.subarray(count - this._maxlen);
+            count = this._maxlen;
+         }
+         const overflow = this._length + count - this._maxlen;
+         if (overflow > 0) {
+            this._front = (this._front + overflow) & (this._capacity - 1);
+            this._length -= overflow;
+         }
+      }
+      if (count === 0) return;
+
+      this._checkCapacity(this._length + count);
+      const tail = (this._front + this._length) & (this._capacity - 1);
+      const first = Math.min(count, this._capacity - tail);
+      this.buffer.set(source.subarray(0, first), tail);
+      if (first < count) {
+         this.buffer.set(source.subarray(first), 0);
+      }
+      this._length += count;
+      this._modCount++;
+   }
+
+   /**
+    * Copies the values, in order, to the start of the target array.
+    * @param target The typed array to copy into.
+    */
+   private _copyTo(target: NumericArray): void {
+      const first = Math.min(this._length, this._capacity - this._front);
+      target.set(this.buffer.subarray(this._front, this._front + first), 0);
+      if (first < this._length) {
+         target.set(this.buffer.subarray(0, this._length - first), first);
+      }
+   }
+
+   /**
+    * Gets the effective (power of two) capacity for the requested size.
+    * @param capacity The desired capacity.
+    * @returns The effective capacity.
+    */
+   private _getCapacity(capacity: number): number {
+      if (this._maxlen !== undefined) {
+         capacity = Math.min(capacity, this._maxlen);
+      }
+      return pow2AtLeast(Math.min(Math.max(NumericDeque.MIN_CAPACITY, capacity), NumericDeque.MAX_CAPACITY));
+   }
+
+   /**
+    * Grows the buffer if it cannot hold the target size.
+    * @param targetSize The desired size.
+    */
+   private _checkCapacity(targetSize: number): void {
+      if (this._capacity >= targetSize) return;
+      if (targetSize > NumericDeque.MAX_CAPACITY) {
+         throw new RangeError(`NumericDeque capacity exceeds maximum limit of ${NumericDeque.MAX_CAPACITY}`);
+      }
+
+      const grown = Math.floor(this._capacity * NumericDeque.GROWTH_FACTOR + NumericDeque.GROWTH_CONSTANT);
+      const newCapacity = this._getCapacity(Math.max(grown, targetSize));
+      const newBuffer = new this._arrayType(newCapacity);
+      this._copyTo(newBuffer);
+
+      this.buffer = newBuffer;
+      this._capacity = newCapacity;
+      this._front = 0;
+   }
+}
+
+export { NumericDeque };
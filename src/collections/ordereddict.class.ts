@@ -1,4 +1,5 @@
-import { IDictEntry, IOrderedDict } from '../interfaces';
+import { IDictEntry, IOrderedDict, OrderedDictOptions } from '../interfaces';
+import { ConcurrentModificationError } from '../utils';
 
 export class DictEntry<K, V> implements IDictEntry<K, V> {
    public key: K;
@@ -75,11 +76,14 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    private _items: Map<K, DictEntry<K, V>>;
    private _head: DictEntry<K, V> | null;
    private _tail: DictEntry<K, V> | null;
+   private readonly _failFast: boolean;
+   private _modCount = 0;
 
-   constructor(iterable?: Iterable<[K, V]>) {
+   constructor(iterable?: Iterable<[K, V]>, options: OrderedDictOptions = {}) {
       this._items = new Map<K, DictEntry<K, V>>();
       this._head = null;
       this._tail = null;
+      this._failFast = options.failFast ?? true;
 
       if (iterable) {
          this.update(iterable);
@@ -95,7 +99,7 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    }
 
    clone(): OrderedDict<K, V> {
-      const newDict = new OrderedDict<K, V>();
+      const newDict = new OrderedDict<K, V>(undefined, { failFast: this._failFast });
       for (const [key, value] of this) {
          newDict.setItem(key, value);
       }
@@ -126,6 +130,7 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
       if (existingEntry) {
          existingEntry.value = value;
       } else {
+         this._modCount++;
          const newEntry = new DictEntry<K, V>(key, value);
          this._insertEntryToEnd(newEntry);
          this._items.set(key, newEntry);
@@ -142,6 +147,7 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    deleteItem(key: K): V | undefined {
       const entry = this._items.get(key);
       if (entry) {
+         this._modCount++;
          this._items.delete(key);
          this._removeEntry(entry);
          return entry.value;
@@ -178,12 +184,14 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
          if (entry === this._tail) {
             return this;
          }
+         this._modCount++;
          this._removeEntry(entry);
          this._insertEntryToEnd(entry);
       } else {
          if (entry === this._head) {
             return this;
          }
+         this._modCount++;
          this._removeEntry(entry);
          this._insertEntryToHead(entry);
       }
@@ -201,6 +209,7 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    popItem(last: boolean = true): [K, V] | undefined {
       const entry = last ? this._tail : this._head;
       if (entry) {
+         this._modCount++;
          this._items.delete(entry.key);
          this._removeEntry(entry);
          return [entry.key, entry.value];
@@ -284,10 +293,21 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
       entry.next = null;
    }
 
+   /**
+    * Throws if the dictionary was structurally modified since an iterator started, unless fail-fast is disabled.
+    * @param expected - The modification count observed when the iterator started.
+    */
+   private _checkModification(expected: number): void {
+      if (this._failFast && this._modCount !== expected) {
+         throw new ConcurrentModificationError('OrderedDict');
+      }
+   }
+
    /**
     * Clears the ordered dictionary, removing all items.
     */
    clear(): void {
+      this._modCount++;
       this._items.clear();
       this._head = null;
       this._tail = null;
@@ -310,11 +330,14 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    /**
     * Returns an iterable of the keys in the ordered dictionary.
     * @returns An iterable of keys.
+    * @throws {ConcurrentModificationError} If the dictionary is structurally modified during iteration.
     */
    *keys(): IterableIterator<K> {
+      const expected = this._modCount;
       let current = this._head;
       while (current) {
          yield current.key;
+         this._checkModification(expected);
          current = current.next;
       }
    }
@@ -322,11 +345,14 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    /**
     * Returns an iterable of the entries in the ordered dictionary.
     * @returns An iterable of entries.
+    * @throws {ConcurrentModificationError} If the dictionary is structurally modified during iteration.
     */
    *entries(): IterableIterator<[K, V]> {
+      const expected = this._modCount;
       let current = this._head;
       while (current) {
          yield [current.key, current.value];
+         this._checkModification(expected);
          current = current.next;
       }
    }
@@ -334,11 +360,14 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    /**
     * Returns an iterable of the values in the ordered dictionary.
     * @returns An iterable of values.
+    * @throws {ConcurrentModificationError} If the dictionary is structurally modified during iteration.
     */
    *values(): IterableIterator<V> {
+      const expected = this._modCount;
       let current = this._head;
       while (current) {
          yield current.value;
+         this._checkModification(expected);
          current = current.next;
       }
    }
@@ -346,11 +375,17 @@ export class OrderedDict<K, V> implements IOrderedDict<K, V> {
    /**
     * Returns an iterator for the ordered dictionary.
     * @returns An iterable iterator of key-value pairs.
+    * @throws {ConcurrentModificationError} If the dictionary is structurally modified during iteration.
     */
    [Symbol.iterator](): IterableIterator<[K, V]> {
+      const expected = this._modCount;
+      const check = (): void => this._checkModification(expected);
       let current = this._head;
+      let started = false;
       return {
          next(): IteratorResult<[K, V]> {
+            if (started) check();
+            started = true;
             if (current) {
                const value: [K, V] = [current.key, current.value];
                current = current.next;
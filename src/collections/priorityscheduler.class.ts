@@ -0,0 +1,258 @@
+import { HeapHandle } from '../interfaces/heap.interfaces';
+import {
+   IPriorityScheduler,
+   PrioritySchedulerOptions,
+   ScheduledTask,
+   ScheduleOptions,
+   SchedulerJob,
+   SchedulerTask,
+} from '../interfaces/priorityscheduler.interfaces';
+import { TaskCancelledError } from '../utils/errors';
+import { IndexedHeap } from './heap.class';
+
+/**
+ * PriorityScheduler runs async tasks by priority with a concurrency limit.
+ * Queued tasks live in a stable `IndexedHeap`, so higher priorities run first, equal priorities
+ * run in the order they were scheduled, and queued tasks can be cancelled or re-prioritized in O(log n).
+ *
+ * Tasks start synchronously from `schedule()`, `resume()` or when a running task settles, so the
+ * scheduler adds no timers of its own and works with fake timers.
+ *
+ * @example
+ * const scheduler = new PriorityScheduler({ concurrency: 2 });
+ * const report = scheduler.schedule(() => buildReport(), { priority: 1 });
+ * scheduler.schedule(() => sendEmail(), { priority: 10 });
+ * await report.promise;
+ * await scheduler.onIdle();
+ */
+class PriorityScheduler implements IPriorityScheduler {
+   private readonly _queue: IndexedHeap<SchedulerJob>;
+   private readonly _concurrency: number;
+   private _running = 0;
+   private _paused: boolean;
+   private _emptyWaiters: (() => void)[] = [];
+   private _idleWaiters: (() => void)[] = [];
+
+   /**
+    * Creates a new scheduler.
+    * @param options Optional `concurrency` (default 1, may be `Infinity`) and `autoStart` (default true);
+    *                with `autoStart: false` the scheduler starts paused.
+    * @throws {RangeError} If `concurrency` is not a positive integer or `Infinity`.
+    */
+   constructor(options: PrioritySchedulerOptions = {}) {
+      const { concurrency = 1, autoStart = true } = options;
+      if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency <= 0)) {
+         throw new RangeError('concurrency must be a positive integer');
+      }
+
+      this._concurrency = concurrency;
+      this._paused = !autoStart;
+      this._queue = new IndexedHeap<SchedulerJob>({
+         key: (job): number => job.priority,
+         reverse: true,
+         stable: true,
+      });
+   }
+
+   /**
+    * Gets the number of queued tasks that have not started yet.
+    */
+   get size(): number {
+      return this._queue.size;
+   }
+
+   /**
+    * Gets whether no tasks are queued. Tasks may still be running.
+    */
+   get isEmpty(): boolean {
+      return this._queue.isEmpty;
+   }
+
+   /**
+    * Gets the number of running tasks.
+    */
+   get pending(): number {
+      return this._running;
+   }
+
+   /**
+    * Gets the maximum number of tasks that run at the same time.
+    */
+   get concurrency(): number {
+      return this._concurrency;
+   }
+
+   /**
+    * Gets whether the scheduler is paused.
+    */
+   get isPaused(): boolean {
+      return this._paused;
+   }
+
+   /**
+    * Queues a task. It starts right away if the scheduler is running and below its concurrency limit.
+    * @param task The function to run. It may return a value or a promise.
+    * @param options Optional `priority` (default 0). Higher priorities run first.
+    * @returns The scheduled task, whose `promise` settles with the task's result.
+    * @throws {RangeError} If `priority` is NaN.
+    */
+   schedule<R>(task: SchedulerTask<R>, options: ScheduleOptions = {}): ScheduledTask<R> {
+      const { priority = 0 } = options;
+      if (Number.isNaN(priority)) {
+         throw new RangeError('priority must be a number');
+      }
+
+      const job = { task, priority, status: 'queued' } as SchedulerJob<R>;
+      job.promise = new Promise<R>((resolve, reject) => {
+         job.resolve = resolve;
+         job.reject = reject;
+      });
+      job.handle = this._queue.push(job);
+      this._next();
+      return job;
+   }
+
+   /**
+    * Removes a queued task. Its promise is rejected with a `TaskCancelledError`, which does not
+    * count as an unhandled rejection when nobody awaits it. Tasks that already started cannot be cancelled.
+    * @param task The scheduled task.
+    * @returns True if the task was removed, false if it is not queued in this scheduler.
+    */
+   cancel(task: ScheduledTask<unknown>): boolean {
+      const job = this._queued(task);
+      if (!job) return false;
+
+      this._queue.remove(job.handle as HeapHandle<SchedulerJob>);
+      this._cancel(job);
+      this._notify();
+      return true;
+   }
+
+   /**
+    * Changes the priority of a queued task. Among equal priorities it keeps its original place.
+    * @param task The scheduled task.
+    * @param priority The new priority.
+    * @returns True if the task was re-prioritized, false if it is not queued in this scheduler.
+    * @throws {RangeError} If `priority` is NaN.
+    */
+   setPriority(task: ScheduledTask<unknown>, priority: number): boolean {
+      if (Number.isNaN(priority)) {
+         throw new RangeError('priority must be a number');
+      }
+      const job = this._queued(task);
+      if (!job) return false;
+
+      job.priority = priority;
+      this._queue.update(job.handle as HeapHandle<SchedulerJob>, job);
+      return true;
+   }
+
+   /**
+    * Stops starting queued tasks. Running tasks are not affected.
+    */
+   pause(): void {
+      this._paused = true;
+   }
+
+   /**
+    * Resumes starting queued tasks.
+    */
+   resume(): void {
+      if (!this._paused) return;
+      this._paused = false;
+      this._next();
+   }
+
+   /**
+    * Cancels every queued task. Running tasks are not affected.
+    */
+   clear(): void {
+      let job: SchedulerJob | undefined;
+      while ((job = this._queue.pop())) {
+         this._cancel(job);
+      }
+      this._notify();
+   }
+
+   /**
+    * Returns a promise that resolves once no tasks are queued. Tasks may still be running.
+    */
+   onEmpty(): Promise<void> {
+      if (this._queue.isEmpty) return Promise.resolve();
+      return new Promise(resolve => this._emptyWaiters.push(resolve));
+   }
+
+   /**
+    * Returns a promise that resolves once no tasks are queued or running.
+    */
+   onIdle(): Promise<void> {
+      if (this._queue.isEmpty && this._running === 0) return Promise.resolve();
+      return new Promise(resolve => this._idleWaiters.push(resolve));
+   }
+
+   /**
+    * Starts queued tasks while the scheduler is running and below its concurrency limit.
+    */
+   private _next(): void {
+      while (!this._paused && this._running < this._concurrency && !this._queue.isEmpty) {
+         this._start(this._queue.pop() as SchedulerJob);
+      }
+      this._notify();
+   }
+
+   private _start(job: SchedulerJob): void {
+      this._running++;
+      job.status = 'running';
+      // Running the task inside the executor turns synchronous throws into rejections.
+      new Promise<unknown>(resolve => resolve(job.task())).then(
+         value => this._finish(job, () => job.resolve(value)),
+         error => this._finish(job, () => job.reject(error))
+      );
+   }
+
+   private _finish(job: SchedulerJob, settle: () => void): void {
+      this._running--;
+      job.status = 'settled';
+      settle();
+      this._next();
+   }
+
+   /**
+    * Rejects a cancelled job. Nobody may be listening to a fire-and-forget task, so the rejection
+    * is marked as handled first; callers awaiting `promise` still see the `TaskCancelledError`.
+    */
+   private _cancel(job: SchedulerJob): void {
+      job.status = 'cancelled';
+      job.promise.catch(() => undefined);
+      job.reject(new TaskCancelledError());
+   }
+
+   /**
+    * Gets the job of a task that is queued in this scheduler.
+    */
+   private _queued(task: ScheduledTask<unknown>): SchedulerJob | undefined {
+      const job = task as SchedulerJob;
+      if (job.status !== 'queued' || !job.handle || !this._queue.contains(job.handle)) {
+         return undefined;
+      }
+      return job;
+   }
+
+   /**
+    * Resolves the `onEmpty` and `onIdle` promises whose condition holds.
+    */
+   private _notify(): void {
+      if (!this._queue.isEmpty) return;
+      this._emptyWaiters = PriorityScheduler._flush(this._emptyWaiters);
+      if (this._running === 0) {
+         this._idleWaiters = PriorityScheduler._flush(this._idleWaiters);
+      }
+   }
+
+   private static _flush(waiters: (() => void)[]): (() => void)[] {
+      waiters.forEach(resolve => resolve());
+      return [];
+   }
+}
+
+export { PriorityScheduler };
@@ -0,0 +1,251 @@
+import { IRunningMedian, IRunningQuantile, RunningQuantileOptions } from '../interfaces/runningquantile.interfaces';
+import { Deque } from './deque.class';
+import { Heap } from './heap.class';
+
+/**
+ * RunningQuantile tracks a quantile (p50, p90, p99...) of a stream of numbers with two heaps:
+ * a max-heap `low` with the smallest values and a min-heap `high` with the rest. `low` is kept at
+ * `floor(q * (n - 1)) + 1` values, so the quantile is read from the two roots, interpolated linearly
+ * between the closest ranks like numpy's default `quantile`.
+ *
+ * Removed values are deleted lazily: they are counted in `_delayed` and discarded once they reach
+ * the root of their heap, so `remove` stays O(log n) amortized.
+ *
+ * With `maxSize`, only the most recent values are tracked; a `Deque` remembers their order and
+ * the oldest value is removed when a new one arrives.
+ *
+ * @example
+ * const p90 = new RunningQuantile(0.9, { maxSize: 1000 });
+ * latencies.forEach(ms => p90.add(ms));
+ * console.log(p90.quantile);
+ *
+ * Time Complexity:
+ * - add, remove: O(log n) amortized
+ * - quantile: O(1)
+ */
+class RunningQuantile implements IRunningQuantile {
+   private readonly _q: number;
+   private readonly _low = Heap.maxHeap<number>();
+   private readonly _high = Heap.minHeap<number>();
+   private readonly _counts = new Map<number, number>();
+   private readonly _delayed = new Map<number, number>();
+   private readonly _window: Deque<number> | undefined;
+   private _lowSize = 0;
+   private _highSize = 0;
+
+   /**
+    * Creates a new quantile tracker.
+    * @param q The quantile to track, between 0 and 1 (0.5 for the median, 0.99 for p99).
+    * @param options Optional `maxSize` to only track the most recent values.
+    * @throws {RangeError} If `q` is not between 0 and 1, or `maxSize` is not a positive integer.
+    */
+   constructor(q: number, options: RunningQuantileOptions = {}) {
+      if (!(q >= 0 && q <= 1)) {
+         throw new RangeError('q must be between 0 and 1');
+      }
+      const { maxSize } = options;
+      if (maxSize !== undefined && (!Number.isInteger(maxSize) || maxSize <= 0)) {
+         throw new RangeError('maxSize must be a positive integer');
+      }
+
+      this._q = q;
+      if (maxSize !== undefined) {
+         this._window = new Deque<number>({ maxlen: maxSize, onEvict: (value): void => this._remove(value) });
+      }
+   }
+
+   /**
+    * Gets the tracked quantile.
+    */
+   get q(): number {
+      return this._q;
+   }
+
+   /**
+    * Gets the number of values tracked.
+    */
+   get size(): number {
+      return this._lowSize + this._highSize;
+   }
+
+   /**
+    * Gets whether no values are tracked.
+    */
+   get isEmpty(): boolean {
+      return this.size === 0;
+   }
+
+   /**
+    * Gets the window size, or undefined if every value is tracked.
+    */
+   get maxSize(): number | undefined {
+      return this._window?.maxlen;
+   }
+
+   /**
+    * Gets the current quantile, or undefined if no values are tracked.
+    * @complexity O(1)
+    */
+   get quantile(): number | undefined {
+      if (this.isEmpty) return undefined;
+
+      const rank = this._q * (this.size - 1);
+      const below = this._low.peek() as number;
+      const fraction = rank - Math.floor(rank);
+      if (fraction === 0) return below;
+      return below + fraction * ((this._high.peek() as number) - below);
+   }
+
+   /**
+    * Adds a value. With `maxSize`, the oldest value is removed once the window is full.
+    * @param value The value to add.
+    * @returns The tracker instance.
+    * @throws {RangeError} If the value is NaN.
+    */
+   add(value: number): this {
+      if (Number.isNaN(value)) {
+         throw new RangeError('value must be a number');
+      }
+      this._window?.push(value);
+
+      if (this._lowSize === 0 || value <= (this._low.peek() as number)) {
+         this._low.push(value);
+         this._lowSize++;
+      } else {
+         this._high.push(value);
+         this._highSize++;
+      }
+      this._count(value, 1);
+      this._rebalance();
+      return this;
+   }
+
+   /**
+    * Removes one occurrence of a value.
+    * @param value The value to remove.
+    * @returns True if the value was removed, false if it is not tracked.
+    */
+   remove(value: number): boolean {
+      if (!this._counts.has(value)) return false;
+      this._window?.remove(value);
+      this._remove(value);
+      return true;
+   }
+
+   /**
+    * Removes every value.
+    */
+   clear(): void {
+      this._low.clear();
+      this._high.clear();
+      this._counts.clear();
+      this._delayed.clear();
+      this._window?.clear();
+      this._lowSize = this._highSize = 0;
+   }
+
+   /**
+    * Copies the tracked values to an array in ascending order.
+    */
+   toArray(): number[] {
+      const result: number[] = [];
+      for (const [value, count] of this._counts) {
+         for (let i = 0; i < count; i++) result.push(value);
+      }
+      return result.sort((a, b) => a - b);
+   }
+
+   /**
+    * Marks a tracked value as deleted, in whichever heap holds it, and restores the balance.
+    * Both roots are always live, so comparing with the root of `low` tells the heaps apart.
+    */
+   private _remove(value: number): void {
+      this._count(value, -1);
+      this._delayed.set(value, (this._delayed.get(value) ?? 0) + 1);
+
+      if (value <= (this._low.peek() as number)) {
+         this._lowSize--;
+         this._prune(this._low);
+      } else {
+         this._highSize--;
+         this._prune(this._high);
+      }
+      this._rebalance();
+   }
+
+   /**
+    * Moves roots between the heaps until `low` holds exactly the values up to the quantile's rank.
+    */
+   private _rebalance(): void {
+      const size = this.size;
+      const target = size === 0 ? 0 : Math.floor(this._q * (size - 1)) + 1;
+
+      while (this._lowSize > target) {
+         this._high.push(this._low.pop() as number);
+         this._lowSize--;
+         this._highSize++;
+         this._prune(this._low);
+      }
+      while (this._lowSize < target) {
+         this._low.push(this._high.pop() as number);
+         this._highSize--;
+         this._lowSize++;
+         this._prune(this._high);
+      }
+   }
+
+   /**
+    * Discards deleted values from the root of a heap.
+    */
+   private _prune(heap: Heap<number>): void {
+      while (!heap.isEmpty) {
+         const value = heap.peek() as number;
+         const pending = this._delayed.get(value);
+         if (pending === undefined) return;
+
+         if (pending === 1) {
+            this._delayed.delete(value);
+         } else {
+            this._delayed.set(value, pending - 1);
+         }
+         heap.pop();
+      }
+   }
+
+   private _count(value: number, delta: number): void {
+      const count = (this._counts.get(value) ?? 0) + delta;
+      if (count > 0) {
+         this._counts.set(value, count);
+      } else {
+         this._counts.delete(value);
+      }
+   }
+}
+
+/**
+ * RunningMedian is a `RunningQuantile` for q = 0.5. With an even number of values,
+ * the median is the mean of the two middle values.
+ *
+ * @example
+ * const median = new RunningMedian();
+ * median.add(5).add(1).add(3).add(10);
+ * console.log(median.median); // 4
+ */
+class RunningMedian extends RunningQuantile implements IRunningMedian {
+   /**
+    * Creates a new median tracker.
+    * @param options Optional `maxSize` to only track the most recent values.
+    */
+   constructor(options: RunningQuantileOptions = {}) {
+      super(0.5, options);
+   }
+
+   /**
+    * Gets the current median, or undefined if no values are tracked.
+    */
+   get median(): number | undefined {
+      return this.quantile;
+   }
+}
+
+export { RunningMedian, RunningQuantile };
@@ -0,0 +1,292 @@
+import {
+   AtomicsWaitAsync,
+   ISharedRingBuffer,
+   RecordCodec,
+   SharedRingBufferOptions,
+} from '../interfaces/sharedringbuffer.interfaces';
+import { pow2AtLeast } from '../utils';
+
+const numberCodec: RecordCodec<number> = {
+   size: 1,
+   encode: (item, target, offset) => {
+      target[offset] = item;
+   },
+   decode: (source, offset) => source[offset],
+};
+
+/**
+ * SharedRingBuffer is a single-producer/single-consumer queue that lives in a `SharedArrayBuffer`,
+ * so items can be handed between `worker_threads` without serializing through `postMessage`.
+ *
+ * Like `Deque`, it uses a power-of-two ring buffer indexed with a bit mask. The head (read) and
+ * tail (write) counters are stored in the shared header and accessed with `Atomics`; blocking pops
+ * and pushes park on those counters with `Atomics.wait` / `Atomics.waitAsync`.
+ *
+ * Each slot holds `codec.size` float64 values. Numbers are stored directly; other fixed-size records
+ * can be stored by providing a `RecordCodec`.
+ *
+ * Only one thread may push and only one thread may pop at a time.
+ *
+ * @template T - The type of items in the buffer.
+ * @example
+ * // main thread
+ * const queue = new SharedRingBuffer({ capacity: 1024 });
+ * worker.postMessage(queue.buffer);
+ * queue.push(42);
+ *
+ * // worker thread
+ * parentPort.on('message', buffer => {
+ *   const queue = SharedRingBuffer.attach(buffer);
+ *   const item = queue.pop(); // blocks until an item arrives
+ * });
+ */
+class SharedRingBuffer<T = number> implements ISharedRingBuffer<T> {
+   private readonly _buffer: SharedArrayBuffer;
+   private readonly _header: Int32Array;
+   private readonly _data: Float64Array;
+   private readonly _codec: RecordCodec<T>;
+   private readonly _capacity: number;
+
+   private static readonly HEAD = 0;
+   private static readonly TAIL = 1;
+   private static readonly CLOSED = 2;
+   private static readonly CAPACITY = 3;
+   private static readonly RECORD_SIZE = 4;
+   private static readonly HEADER_LENGTH = 6; // Int32 slots, keeps the data section 8-byte aligned
+   private static readonly DEFAULT_CAPACITY = 1024;
+   private static readonly POLL_INTERVAL = 5;
+
+   /**
+    * Creates a new ring buffer, or attaches to an existing one when `options.buffer` is given.
+    * @param options The `capacity` (rounded up to a power of two), record `codec` and optional shared `buffer`.
+    */
+   constructor(options: SharedRingBufferOptions<T> = {}) {
+      const codec = options.codec ?? (numberCodec as unknown as RecordCodec<T>);
+      if (!Number.isInteger(codec.size) || codec.size <= 0) {
+         throw new RangeError('Record size must be a positive integer');
+      }
+
+      const headerBytes = SharedRingBuffer.HEADER_LENGTH * Int32Array.BYTES_PER_ELEMENT;
+      let buffer = options.buffer;
+      if (buffer) {
+         const header = new Int32Array(buffer, 0, SharedRingBuffer.HEADER_LENGTH);
+         if (header[SharedRingBuffer.RECORD_SIZE] !== codec.size) {
+            throw new RangeError(
+               `Record size mismatch: buffer uses ${header[SharedRingBuffer.RECORD_SIZE]}, codec uses ${codec.size}`
+            );
+         }
+         this._capacity = header[SharedRingBuffer.CAPACITY];
+      } else {
+         const capacity = options.capacity ?? SharedRingBuffer.DEFAULT_CAPACITY;
+         if (!Number.isInteger(capacity) || capacity <= 0 || capacity > 1 << 30) {
+            throw new RangeError('Capacity must be a positive integer no greater than 2^30');
+         }
+         this._capacity = pow2AtLeast(capacity);
+         buffer = new SharedArrayBuffer(headerBytes + this._capacity * codec.size * Float64Array.BYTES_PER_ELEMENT);
+      }
+
+      this._buffer = buffer;
+      this._codec = codec;
+      this._header = new Int32Array(buffer, 0, SharedRingBuffer.HEADER_LENGTH);
+      this._data = new Float64Array(buffer, headerBytes, this._capacity * codec.size);
+
+      if (!options.buffer) {
+         this._header[SharedRingBuffer.CAPACITY] = this._capacity;
+         this._header[SharedRingBuffer.RECORD_SIZE] = codec.size;
+      }
+   }
+
+   /**
+    * Attaches to a buffer created by another `SharedRingBuffer`, typically in another worker.
+    * @param buffer The shared memory of the original ring buffer.
+    * @param codec The record codec; must have the same record size as the original.
+    * @returns A ring buffer view over the same shared memory.
+    */
+   static attach<T = number>(buffer: SharedArrayBuffer, codec?: RecordCodec<T>): SharedRingBuffer<T> {
+      return new SharedRingBuffer<T>({ buffer, codec });
+   }
+
+   /**
+    * Gets the shared memory, to be posted to other workers.
+    */
+   get buffer(): SharedArrayBuffer {
+      return this._buffer;
+   }
+
+   /**
+    * Gets the maximum number of items the buffer can hold.
+    */
+   get capacity(): number {
+      return this._capacity;
+   }
+
+   /**
+    * Gets the number of items currently in the buffer.
+    */
+   get size(): number {
+      return (
+         (Atomics.load(this._header, SharedRingBuffer.TAIL) - Atomics.load(this._header, SharedRingBuffer.HEAD)) | 0
+      );
+   }
+
+   /**
+    * Gets whether the buffer is empty.
+    */
+   get isEmpty(): boolean {
+      return this.size === 0;
+   }
+
+   /**
+    * Gets whether the buffer is full.
+    */
+   get isFull(): boolean {
+      return this.size >= this._capacity;
+   }
+
+   /**
+    * Gets whether the buffer has been closed by either side.
+    */
+   get isClosed(): boolean {
+      return Atomics.load(this._header, SharedRingBuffer.CLOSED) === 1;
+   }
+
+   /**
+    * Adds an item without blocking. Producer side only.
+    * @param item The item to add.
+    * @returns True if the item was added, false if the buffer is full.
+    * @throws {Error} If the buffer is closed.
+    */
+   tryPush(item: T): boolean {
+      if (this.isClosed) {
+         throw new Error('SharedRingBuffer is closed');
+      }
+
+      const tail = Atomics.load(this._header, SharedRingBuffer.TAIL);
+      const head = Atomics.load(this._header, SharedRingBuffer.HEAD);
+      if (((tail - head) | 0) >= this._capacity) return false;
+
+      this._codec.encode(item, this._data, (tail & (this._capacity - 1)) * this._codec.size);
+      Atomics.store(this._header, SharedRingBuffer.TAIL, (tail + 1) | 0);
+      Atomics.notify(this._header, SharedRingBuffer.TAIL);
+      return true;
+   }
+
+   /**
+    * Adds an item, blocking the thread with `Atomics.wait` while the buffer is full. Producer side only.
+    * @param item The item to add.
+    * @param timeout The maximum time to wait in milliseconds (default is no limit).
+    * @returns True if the item was added, false if the wait timed out or the buffer was closed.
+    */
+   push(item: T, timeout: number = Infinity): boolean {
+      const deadline = Date.now() + timeout;
+      for (;;) {
+         if (this.isClosed) return false;
+         const head = Atomics.load(this._header, SharedRingBuffer.HEAD);
+         if (this.tryPush(item)) return true;
+
+         const remaining = deadline - Date.now();
+         if (remaining <= 0) return false;
+         Atomics.wait(this._header, SharedRingBuffer.HEAD, head, remaining);
+      }
+   }
+
+   /**
+    * Removes and returns the oldest item without blocking. Consumer side only.
+    * @returns The item, or undefined if the buffer is empty.
+    */
+   tryPop(): T | undefined {
+      const head = Atomics.load(this._header, SharedRingBuffer.HEAD);
+      const tail = Atomics.load(this._header, SharedRingBuffer.TAIL);
+      if (head === tail) return undefined;
+
+      const item = this._codec.decode(this._data, (head & (this._capacity - 1)) * this._codec.size);
+      Atomics.store(this._header, SharedRingBuffer.HEAD, (head + 1) | 0);
+      Atomics.notify(this._header, SharedRingBuffer.HEAD);
+      return item;
+   }
+
+   /**
+    * Removes and returns the oldest item, blocking the thread with `Atomics.wait` while the buffer is empty.
+    * Consumer side only. Browsers do not allow blocking the main thread; use `popAsync` there.
+    * @param timeout The maximum time to wait in milliseconds (default is no limit).
+    * @returns The item, or undefined if the wait timed out or the buffer was closed while empty.
+    */
+   pop(timeout: number = Infinity): T | undefined {
+      const deadline = Date.now() + timeout;
+      for (;;) {
+         const tail = Atomics.load(this._header, SharedRingBuffer.TAIL);
+         if (tail !== Atomics.load(this._header, SharedRingBuffer.HEAD)) return this.tryPop();
+         if (this.isClosed) return undefined;
+
+         const remaining = deadline - Date.now();
+         if (remaining <= 0) return undefined;
+         Atomics.wait(this._header, SharedRingBuffer.TAIL, tail, remaining);
+      }
+   }
+
+   /**
+    * Removes and returns the oldest item, waiting without blocking the thread while the buffer is empty.
+    * Uses `Atomics.waitAsync` where available and falls back to polling otherwise. Consumer side only.
+    * @param timeout The maximum time to wait in milliseconds (default is no limit).
+    * @returns A promise with the item, or undefined if the wait timed out or the buffer was closed while empty.
+    */
+   async popAsync(timeout: number = Infinity): Promise<T | undefined> {
+      const deadline = Date.now() + timeout;
+      for (;;) {
+         const tail = Atomics.load(this._header, SharedRingBuffer.TAIL);
+         if (tail !== Atomics.load(this._header, SharedRingBuffer.HEAD)) return this.tryPop();
+         if (this.isClosed) return undefined;
+
+         const remaining = deadline - Date.now();
+         if (remaining <= 0) return undefined;
+         await this._waitAsync(SharedRingBuffer.TAIL, tail, remaining);
+      }
+   }
+
+   /**
+    * Closes the buffer from either side and wakes any blocked waiters.
+    * Items already in the buffer can still be popped.
+    */
+   close(): void {
+      Atomics.store(this._header, SharedRingBuffer.CLOSED, 1);
+      Atomics.notify(this._header, SharedRingBuffer.HEAD);
+      Atomics.notify(this._header, SharedRingBuffer.TAIL);
+   }
+
+   /**
+    * Discards all items. Consumer side only.
+    */
+   clear(): void {
+      Atomics.store(this._header, SharedRingBuffer.HEAD, Atomics.load(this._header, SharedRingBuffer.TAIL));
+      Atomics.notify(this._header, SharedRingBuffer.HEAD);
+   }
+
+   /**
+    * Decodes a snapshot of the items currently in the buffer, from oldest to newest, without removing them.
+    * @returns An array containing the items.
+    */
+   toArray(): T[] {
+      const head = Atomics.load(this._header, SharedRingBuffer.HEAD);
+      const size = (Atomics.load(this._header, SharedRingBuffer.TAIL) - head) | 0;
+      const result = new Array<T>(size);
+      for (let i = 0; i < size; i++) {
+         result[i] = this._codec.decode(this._data, ((head + i) & (this._capacity - 1)) * this._codec.size);
+      }
+      return result;
+   }
+
+   /**
+    * Waits until the header slot no longer holds `value`, the timeout elapses, or a notification arrives.
+    */
+   private async _waitAsync(index: number, value: number, timeout: number): Promise<void> {
+      const waitAsync = (Atomics as unknown as { waitAsync?: AtomicsWaitAsync }).waitAsync;
+      if (waitAsync) {
+         const result = waitAsync(this._header, index, value, timeout);
+         if (result.async) await result.value;
+         return;
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(timeout, SharedRingBuffer.POLL_INTERVAL)));
+   }
+}
+
+export { SharedRingBuffer };
@@ -0,0 +1,210 @@
+import { ISlidingWindow, SlidingWindowOptions } from '../interfaces/slidingwindow.interfaces';
+import { CompareFn } from '../types';
+import { defaultComparator } from '../utils/comparators';
+import { Deque } from './deque.class';
+
+/**
+ * SlidingWindow keeps the most recent items of a stream and answers min/max queries in O(1) amortized time.
+ * It uses the monotonic-deque technique: besides the window itself, two `Deque`s hold the candidates for
+ * the minimum and maximum in non-decreasing and non-increasing order respectively.
+ *
+ * The window can be bounded by count (`maxSize`), by age (`maxAge`, measured with `clock`), or evicted manually.
+ *
+ * @template T - The type of items in the window.
+ * @example
+ * const window = new SlidingWindow<number>({ maxSize: 3 });
+ * window.push(4).push(2).push(12).push(3);
+ * console.log(window.toArray()); // [2, 12, 3]
+ * console.log(window.min); // 2
+ * console.log(window.max); // 12
+ * console.log(window.mean); // 5.666...
+ *
+ * Time Complexity:
+ * - push: O(1) amortized
+ * - evict: O(1) amortized per item
+ * - min, max, sum, mean: O(1) amortized
+ */
+class SlidingWindow<T> implements ISlidingWindow<T> {
+   private readonly _items: Deque<T>;
+   private readonly _timestamps: Deque<number>;
+   private readonly _mins: Deque<T>;
+   private readonly _maxs: Deque<T>;
+   private readonly _comparator: CompareFn<T>;
+   private readonly _maxSize: number | undefined;
+   private readonly _maxAge: number | undefined;
+   private readonly _clock: () => number;
+   private _sum: number;
+
+   constructor(options: SlidingWindowOptions<T> = {}) {
+      const { comparator = defaultComparator, maxSize, maxAge, clock = Date.now } = options;
+      if (maxSize !== undefined && (!Number.isInteger(maxSize) || maxSize <= 0)) {
+         throw new RangeError('maxSize must be a positive integer');
+      }
+      if (maxAge !== undefined && !(maxAge > 0)) {
+         throw new RangeError('maxAge must be a positive number');
+      }
+
+      this._comparator = comparator;
+      this._maxSize = maxSize;
+      this._maxAge = maxAge;
+      this._clock = clock;
+      this._items = new Deque<T>();
+      this._timestamps = new Deque<number>();
+      this._mins = new Deque<T>();
+      this._maxs = new Deque<T>();
+      this._sum = 0;
+   }
+
+   /**
+    * Gets the number of items in the window.
+    */
+   get size(): number {
+      this._expire();
+      return this._items.size;
+   }
+
+   /**
+    * Gets whether the window is empty.
+    */
+   get isEmpty(): boolean {
+      return this.size === 0;
+   }
+
+   /**
+    * Gets the smallest item in the window according to the comparator.
+    */
+   get min(): T | undefined {
+      this._expire();
+      return this._mins.get(0);
+   }
+
+   /**
+    * Gets the largest item in the window according to the comparator.
+    */
+   get max(): T | undefined {
+      this._expire();
+      return this._maxs.get(0);
+   }
+
+   /**
+    * Gets the sum of the items in the window. Only meaningful for numeric windows;
+    * non-numeric items make the sum `NaN`.
+    */
+   get sum(): number {
+      this._expire();
+      return this._items.isEmpty ? 0 : this._sum;
+   }
+
+   /**
+    * Gets the arithmetic mean of the items in the window, or undefined if it is empty.
+    */
+   get mean(): number | undefined {
+      const size = this.size;
+      return size === 0 ? undefined : this._sum / size;
+   }
+
+   /**
+    * Adds an item to the window, evicting the oldest items if the window is bounded.
+    * @param value The item to add.
+    * @param timestamp The time the item was observed (default is the current clock time).
+    * @returns The window instance.
+    */
+   push(value: T, timestamp: number = this._clock()): this {
+      this._items.push(value);
+      this._timestamps.push(timestamp);
+      this._sum += typeof value === 'number' ? value : NaN;
+
+      while (!this._mins.isEmpty && this._comparator(this._mins.get(-1) as T, value) > 0) {
+         this._mins.pop();
+      }
+      this._mins.push(value);
+
+      while (!this._maxs.isEmpty && this._comparator(this._maxs.get(-1) as T, value) < 0) {
+         this._maxs.pop();
+      }
+      this._maxs.push(value);
+
+      if (this._maxSize !== undefined && this._items.size > this._maxSize) {
+         this.evict(this._items.size - this._maxSize);
+      }
+      this._expire(timestamp);
+      return this;
+   }
+
+   /**
+    * Removes the oldest items from the window.
+    * @param count The number of items to remove (default is 1).
+    * @returns The window instance.
+    */
+   evict(count: number = 1): this {
+      for (let i = 0; i < count && !this._items.isEmpty; i++) {
+         this._shift();
+      }
+      return this;
+   }
+
+   /**
+    * Removes the items older than `maxAge`. Does nothing if the window is not time-based.
+    * @param now The current time (default is the current clock time).
+    * @returns The window instance.
+    */
+   evictExpired(now: number = this._clock()): this {
+      this._expire(now);
+      return this;
+   }
+
+   /**
+    * Removes all items from the window.
+    */
+   clear(): void {
+      this._items.clear();
+      this._timestamps.clear();
+      this._mins.clear();
+      this._maxs.clear();
+      this._sum = 0;
+   }
+
+   /**
+    * Converts the window to an array, from oldest to newest.
+    * @returns An array containing the items in the window.
+    */
+   toArray(): T[] {
+      this._expire();
+      return this._items.toArray();
+   }
+
+   *[Symbol.iterator](): IterableIterator<T> {
+      this._expire();
+      yield* this._items;
+   }
+
+   /**
+    * Removes the oldest item and drops it from the monotonic deques if it is at their front.
+    * Because equal items are kept in order, a comparator result of 0 means the front is the evicted item.
+    */
+   private _shift(): void {
+      const item = this._items.popLeft() as T;
+      this._timestamps.popLeft();
+      this._sum -= typeof item === 'number' ? item : NaN;
+      if (this._items.isEmpty) {
+         this._sum = 0;
+      }
+
+      if (!this._mins.isEmpty && this._comparator(this._mins.get(0) as T, item) === 0) {
+         this._mins.popLeft();
+      }
+      if (!this._maxs.isEmpty && this._comparator(this._maxs.get(0) as T, item) === 0) {
+         this._maxs.popLeft();
+      }
+   }
+
+   private _expire(now?: number): void {
+      if (this._maxAge === undefined) return;
+      const cutoff = (now ?? this._clock()) - this._maxAge;
+      while (!this._timestamps.isEmpty && (this._timestamps.get(0) as number) <= cutoff) {
+         this._shift();
+      }
+   }
+}
+
+export { SlidingWindow };
@@ -0,0 +1,228 @@
+import { DelayEntry, DelayStore } from '../interfaces/delayqueue.interfaces';
+
+/**
+ * Orders entries by due time, then by insertion sequence.
+ */
+const _byDueAt = <T>(a: DelayEntry<T>, b: DelayEntry<T>): number => a.dueAt - b.dueAt || a.sequence - b.sequence;
+
+/**
+ * TimerWheel is a hierarchical timing wheel, the `'wheel'` backend of `DelayQueue`.
+ * Time is cut into ticks of `tickMs`. Level 0 has one slot per tick for the next `wheelSize` ticks,
+ * level 1 one slot per `wheelSize` ticks, and so on; entries beyond the last level wait in an overflow set.
+ * Adding and cancelling are O(1). When time advances, entries of a higher level slot are cascaded
+ * into lower levels once their range comes up, so each entry moves at most once per level.
+ *
+ * Entries are released at the first tick boundary at or after their due time.
+ * Advancing skips the ticks where no slot needs emptying, so long idle periods stay cheap.
+ *
+ * @template T - The type of items in the wheel.
+ */
+class TimerWheel<T> implements DelayStore<T> {
+   private readonly _tickMs: number;
+   private readonly _wheelSize: number;
+   private readonly _wheels: Set<DelayEntry<T>>[][];
+   private readonly _overflow = new Set<DelayEntry<T>>();
+   // Due entries, in release order. A Set keeps insertion order and deletes in O(1).
+   private readonly _ready = new Set<DelayEntry<T>>();
+   private _tick: number;
+   private _size = 0;
+
+   /**
+    * @param tickMs The duration of a tick, in milliseconds.
+    * @param wheelSize The number of slots per level.
+    * @param levels The number of levels.
+    * @param now The current time, which becomes the wheel's first tick.
+    */
+   constructor(tickMs: number, wheelSize: number, levels: number, now: number) {
+      this._tickMs = tickMs;
+      this._wheelSize = wheelSize;
+      this._wheels = Array.from({ length: levels }, () => Array.from({ length: wheelSize }, () => new Set()));
+      this._tick = Math.floor(now / tickMs);
+   }
+
+   get size(): number {
+      return this._size;
+   }
+
+   /**
+    * Gets the earliest due time. Only the first non-empty slot of each level needs to be scanned,
+    * because a level's slots cover increasing time ranges in rotation order from the current tick.
+    * @complexity O(levels * wheelSize) plus the size of the scanned slots
+    */
+   get nextDueAt(): number | undefined {
+      let next: number | undefined;
+      const consider = (slot: Set<DelayEntry<T>>): void => {
+         for (const entry of slot) {
+            if (next === undefined || entry.dueAt < next) next = entry.dueAt;
+         }
+      };
+
+      consider(this._ready);
+      let unit = 1;
+      for (const wheel of this._wheels) {
+         const digit = Math.floor(this._tick / unit) % this._wheelSize;
+         for (let offset = 1; offset <= this._wheelSize; offset++) {
+            const slot = wheel[(digit + offset) % this._wheelSize];
+            if (slot.size > 0) {
+               consider(slot);
+               break;
+            }
+         }
+         unit *= this._wheelSize;
+      }
+      consider(this._overflow);
+      return next;
+   }
+
+   add(entry: DelayEntry<T>): void {
+      this._size++;
+      if (this._dueTick(entry) <= this._tick) {
+         this._put(this._ready, entry);
+      } else {
+         this._place(entry);
+      }
+   }
+
+   delete(entry: DelayEntry<T>): boolean {
+      if (!entry.slot?.delete(entry)) return false;
+      entry.slot = undefined;
+      this._size--;
+      return true;
+   }
+
+   /**
+    * Advances the wheel to `now` and removes the first due entry.
+    */
+   shift(now: number): DelayEntry<T> | undefined {
+      this._advance(now);
+      const { value: entry, done } = this._ready.values().next();
+      if (done) return undefined;
+      this.delete(entry);
+      return entry;
+   }
+
+   clear(): void {
+      for (const wheel of this._wheels) {
+         wheel.forEach(slot => slot.clear());
+      }
+      this._overflow.clear();
+      this._ready.clear();
+      this._size = 0;
+   }
+
+   *values(): IterableIterator<DelayEntry<T>> {
+      yield* this._ready;
+      for (const wheel of this._wheels) {
+         for (const slot of wheel) yield* slot;
+      }
+      yield* this._overflow;
+   }
+
+   private _dueTick(entry: DelayEntry<T>): number {
+      return Math.ceil(entry.dueAt / this._tickMs);
+   }
+
+   /**
+    * Puts a future entry in the lowest level whose range covers it, or in the overflow set.
+    */
+   private _place(entry: DelayEntry<T>): void {
+      const dueTick = this._dueTick(entry);
+      const delta = dueTick - this._tick;
+      let unit = 1;
+      for (const wheel of this._wheels) {
+         if (delta < unit * this._wheelSize) {
+            this._put(wheel[Math.floor(dueTick / unit) % this._wheelSize], entry);
+            return;
+         }
+         unit *= this._wheelSize;
+      }
+      this._put(this._overflow, entry);
+   }
+
+   private _put(slot: Set<DelayEntry<T>>, entry: DelayEntry<T>): void {
+      slot.add(entry);
+      entry.slot = slot;
+   }
+
+   /**
+    * Moves the wheel forward to `now`, jumping straight over the ticks where no slot has to be emptied,
+    * so a long idle period costs one step per non-empty slot rather than one per tick.
+    */
+   private _advance(now: number): void {
+      const target = Math.floor(now / this._tickMs);
+      while (this._tick < target) {
+         const next = this._nextCascade();
+         if (next === undefined || next > target) {
+            this._tick = target;
+            break;
+         }
+         this._tick = next;
+         this._cascade();
+      }
+   }
+
+   /**
+    * Gets the first tick after the current one at which a non-empty slot is emptied, or undefined if
+    * nothing is waiting in the wheel. A level `L` slot `s` is emptied at the ticks that are a multiple of
+    * `wheelSize ** L` and whose digit at that level is `s`; the overflow set at multiples of `wheelSize ** levels`.
+    * @complexity O(levels * wheelSize)
+    */
+   private _nextCascade(): number | undefined {
+      if (this._ready.size === this._size) return undefined;
+
+      let next: number | undefined;
+      let unit = 1;
+      for (const wheel of this._wheels) {
+         const boundary = (Math.floor(this._tick / unit) + 1) * unit;
+         const digit = Math.floor(boundary / unit) % this._wheelSize;
+         for (let offset = 0; offset < this._wheelSize; offset++) {
+            if (wheel[(digit + offset) % this._wheelSize].size > 0) {
+               const tick = boundary + offset * unit;
+               if (next === undefined || tick < next) next = tick;
+               break;
+            }
+         }
+         unit *= this._wheelSize;
+      }
+      if (this._overflow.size > 0) {
+         const tick = (Math.floor(this._tick / unit) + 1) * unit;
+         if (next === undefined || tick < next) next = tick;
+      }
+      return next;
+   }
+
+   /**
+    * Handles a new tick: the slots whose range starts at this tick are emptied, from the overflow
+    * set down to level 0. Entries that are now due become ready; the others move to a lower level.
+    */
+   private _cascade(): void {
+      const due: DelayEntry<T>[] = [];
+      const levels = this._wheels.length;
+      let unit = this._wheelSize ** levels;
+      if (this._tick % unit === 0) {
+         this._redistribute(this._overflow, due);
+      }
+      for (let level = levels - 1; level >= 0; level--) {
+         unit /= this._wheelSize;
+         if (this._tick % unit === 0) {
+            this._redistribute(this._wheels[level][Math.floor(this._tick / unit) % this._wheelSize], due);
+         }
+      }
+      due.sort(_byDueAt).forEach(entry => this._put(this._ready, entry));
+   }
+
+   private _redistribute(slot: Set<DelayEntry<T>>, due: DelayEntry<T>[]): void {
+      if (slot.size === 0) return;
+      const entries = [...slot];
+      slot.clear();
+      for (const entry of entries) {
+         if (this._dueTick(entry) <= this._tick) {
+            due.push(entry);
+         } else {
+            this._place(entry);
+         }
+      }
+   }
+}
+
+export { TimerWheel };
@@ -1,7 +1,14 @@
 // Implementations
 export { Deque } from './collections/deque.class';
+export { AsyncDeque } from './collections/asyncdeque.class';
+export { NumericDeque } from './collections/numericdeque.class';
+export { SharedRingBuffer } from './collections/sharedringbuffer.class';
+export { SlidingWindow } from './collections/slidingwindow.class';
 export { Counter } from './collections/counter.class';
-export { Heap, heapq } from './collections/heap.class';
+export { Heap, IndexedHeap, MinMaxHeap, PairingHeap, TopK, heapq } from './collections/heap.class';
+export { PriorityScheduler } from './collections/priorityscheduler.class';
+export { DelayQueue } from './collections/delayqueue.class';
+export { RunningMedian, RunningQuantile } from './collections/runningquantile.class';
 export { OrderedDict } from './collections/ordereddict.class';
 export { defaultdict } from './collections/defaultdict.class';
 
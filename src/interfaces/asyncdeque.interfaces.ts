@@ -0,0 +1,43 @@
+import { ICollection } from './collection.interfaces';
+
+export interface AsyncDequeOptions {
+   maxsize?: number;
+}
+
+export interface WaitOptions {
+   timeout?: number;
+   signal?: AbortSignal;
+}
+
+export interface Waiter<T, R> {
+   item?: T;
+   left?: boolean;
+   resolve(value: R): void;
+   reject(reason: unknown): void;
+}
+
+interface AsyncDequeMethods<T> extends ICollection<T> {
+   readonly maxsize: number | undefined;
+   readonly isFull: boolean;
+   readonly isClosed: boolean;
+
+   push(item: T, options?: WaitOptions): Promise<void>;
+   pushLeft(item: T, options?: WaitOptions): Promise<void>;
+   tryPush(item: T): boolean;
+   tryPushLeft(item: T): boolean;
+
+   pop(options?: WaitOptions): Promise<T>;
+   popLeft(options?: WaitOptions): Promise<T>;
+   tryPop(): T | undefined;
+   tryPopLeft(): T | undefined;
+
+   close(): void;
+}
+
+export interface IAsyncDeque<T> extends AsyncDequeMethods<T> {
+   [Symbol.asyncIterator](): AsyncIterableIterator<T>;
+}
+
+export interface AsyncDequeConstructor {
+   new <T>(options?: AsyncDequeOptions): IAsyncDeque<T>;
+}
@@ -4,3 +4,7 @@ export interface ICollection<T> {
    clear(): void;
    toArray(): T[];
 }
+
+export interface IterationOptions {
+   failFast?: boolean;
+}
@@ -0,0 +1,54 @@
+import { ICollection } from './collection.interfaces';
+import { WaitOptions } from './asyncdeque.interfaces';
+import { HeapHandle } from './heap.interfaces';
+
+export type DelayBackend = 'heap' | 'wheel';
+
+export interface DelayQueueOptions {
+   clock?: () => number;
+   backend?: DelayBackend;
+   tickMs?: number;
+   wheelSize?: number;
+   wheelLevels?: number;
+}
+
+export interface DelayedItem<T> {
+   readonly item: T;
+   readonly dueAt: number;
+}
+
+export interface DelayEntry<T> extends DelayedItem<T> {
+   sequence: number;
+   handle?: HeapHandle<DelayEntry<T>>;
+   slot?: Set<DelayEntry<T>>;
+}
+
+export interface DelayStore<T> {
+   readonly size: number;
+   readonly nextDueAt: number | undefined;
+
+   add(entry: DelayEntry<T>): void;
+   delete(entry: DelayEntry<T>): boolean;
+   shift(now: number): DelayEntry<T> | undefined;
+   clear(): void;
+   values(): IterableIterator<DelayEntry<T>>;
+}
+
+interface DelayQueueMethods<T> extends ICollection<T> {
+   readonly nextDueAt: number | undefined;
+
+   push(item: T, delay?: number): DelayedItem<T>;
+   pushAt(item: T, dueAt: number): DelayedItem<T>;
+   cancel(handle: DelayedItem<T>): boolean;
+
+   poll(now?: number): T[];
+   take(options?: WaitOptions): Promise<T>;
+}
+
+export interface IDelayQueue<T> extends DelayQueueMethods<T> {
+   [Symbol.iterator](): IterableIterator<T>;
+}
+
+export interface DelayQueueConstructor {
+   new <T>(options?: DelayQueueOptions): IDelayQueue<T>;
+}
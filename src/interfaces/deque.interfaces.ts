@@ -1,6 +1,21 @@
-import { ICollection } from './collection.interfaces';
+import { EvictCallback, MapCallback, ReduceCallback } from '../types';
+import { ICollection, IterationOptions } from './collection.interfaces';
+
+export interface DequeOptions<T> extends IterationOptions {
+   capacity?: number;
+   items?: Iterable<T>;
+   maxlen?: number;
+   onEvict?: EvictCallback<T>;
+}
 
 interface DequeMethods<T> extends ICollection<T> {
+   readonly maxlen: number | undefined;
+   readonly isFull: boolean;
+   readonly capacity: number;
+
+   trimToSize(): this;
+   ensureCapacity(n: number): this;
+
    push(item: T): this;
    pushLeft(item: T): this;
 
@@ -10,12 +25,37 @@ interface DequeMethods<T> extends ICollection<T> {
    get(index?: number): T | undefined;
    set(index: number, item: T): this;
 
+   insert(index: number, item: T): this;
+   removeAt(index: number): T | undefined;
+   remove(item: T): boolean;
+   count(item: T): number;
+   splice(start: number, deleteCount?: number, ...items: T[]): T[];
+   removeRange(start?: number, end?: number): number;
+   drain(n?: number): T[];
+   copyTo(target: T[], offset?: number): T[];
+
    extend(elements: Iterable<T>): this;
    extendLeft(elements: Iterable<T>): this;
    indexOf(item: T, fromIndex?: number): number;
    includes(item: T, fromIndex?: number): boolean;
+   rotate(n?: number): this;
+
+   lastIndexOf(item: T, fromIndex?: number): number;
+   at(index: number): T | undefined;
 
-   map<U>(callback: (item: T, index: number) => U): IDeque<U>;
+   map<U>(callback: MapCallback<T, U>): IDeque<U>;
+   filter(predicate: MapCallback<T, boolean>): IDeque<T>;
+   reduce<U = T>(callback: ReduceCallback<T, U>, initialValue?: U): U;
+   reduceRight<U = T>(callback: ReduceCallback<T, U>, initialValue?: U): U;
+   forEach(callback: MapCallback<T, void>): void;
+   some(predicate: MapCallback<T, boolean>): boolean;
+   every(predicate: MapCallback<T, boolean>): boolean;
+   find(predicate: MapCallback<T, boolean>): T | undefined;
+   findIndex(predicate: MapCallback<T, boolean>): number;
+   findLast(predicate: MapCallback<T, boolean>): T | undefined;
+   slice(start?: number, end?: number): IDeque<T>;
+   view(start?: number, end?: number): IDequeView<T>;
+   reverse(): this;
 }
 
 export interface DequeIterators<T> {
@@ -25,6 +65,15 @@ export interface DequeIterators<T> {
    values(): IterableIterator<T>;
 }
 
+export interface IDequeView<T> {
+   readonly size: number;
+   readonly isEmpty: boolean;
+
+   get(index?: number): T | undefined;
+   toArray(): T[];
+   [Symbol.iterator](): IterableIterator<T>;
+}
+
 export interface IDeque<T> extends DequeMethods<T>, DequeIterators<T> {}
 
 export interface DequeStatic {
@@ -32,5 +81,7 @@ export interface DequeStatic {
    isDeque<T>(value: any): value is IDeque<T>;
 }
 export interface DequeConstructor extends DequeStatic {
-   from<T>(iterable: T[]): IDeque<T>;
+   new <T>(capacity?: number | Iterable<T> | DequeOptions<T>, options?: DequeOptions<T>): IDeque<T>;
+   from<T>(source: Iterable<T> | ArrayLike<T>): IDeque<T>;
+   from<T, U>(source: Iterable<T> | ArrayLike<T>, mapFn: MapCallback<T, U>): IDeque<U>;
 }
@@ -1,5 +1,27 @@
-import { CompareFn } from '../types';
-import { ICollection } from './collection.interfaces';
+import { CompareFn, EvictCallback, KeyFn } from '../types';
+import { ICollection, IterationOptions } from './collection.interfaces';
+
+export interface HeapOptions<T> extends IterationOptions {
+   comparator?: CompareFn<T>;
+   key?: KeyFn<T>;
+   reverse?: boolean;
+   stable?: boolean;
+   arity?: number;
+   debug?: boolean;
+}
+
+export interface StableHeapOptions<T> extends HeapOptions<T> {
+   stable: true;
+}
+
+export type StableEntry<T> = [item: T, sequence: number];
+
+export interface MinMaxHeapOptions<T> extends Omit<HeapOptions<T>, 'stable' | 'arity'> {
+   maxSize?: number;
+   onEvict?: EvictCallback<T>;
+}
+
+export type TopKOptions<T> = Pick<HeapOptions<T>, 'comparator' | 'key' | 'reverse'>;
 
 interface HeapqMethods<T> extends ICollection<T> {
    push(item: T): this;
@@ -11,9 +33,83 @@ interface HeapqMethods<T> extends ICollection<T> {
    heapify(items?: T[]): this;
 
    sort(): T[];
+   sortedValues(): IterableIterator<T>;
+   drain(): IterableIterator<T>;
 
    nsmallest(n?: number): T[];
    nlargest(n?: number): T[];
+   isValid(): boolean;
+}
+
+export interface MergeOptions<T> {
+   key?: KeyFn<T>;
+   reverse?: boolean;
+}
+
+export interface HeapHandle<T> {
+   readonly item: T;
+}
+
+export interface HeapEntry<T> extends HeapHandle<T> {
+   item: T;
+   index: number;
+   sequence: number;
+}
+
+export interface PairingOwner {
+   next?: PairingOwner;
+}
+
+export interface PairingNode<T> extends HeapHandle<T> {
+   item: T;
+   sequence: number;
+   child?: PairingNode<T>;
+   sibling?: PairingNode<T>;
+   prev?: PairingNode<T>;
+   owner?: PairingOwner;
+}
+
+interface IndexedHeapMethods<T> extends ICollection<T> {
+   push(item: T): HeapHandle<T>;
+   pop(): T | undefined;
+   peek(): T | undefined;
+
+   update(handle: HeapHandle<T>, item: T): this;
+   decreaseKey(handle: HeapHandle<T>, item: T): this;
+   remove(handle: HeapHandle<T>): boolean;
+   has(item: T): boolean;
+   contains(handle: HeapHandle<T>): boolean;
+   isValid(): boolean;
+}
+
+interface MinMaxHeapMethods<T> extends ICollection<T> {
+   readonly maxSize: number | undefined;
+   readonly isFull: boolean;
+
+   push(item: T): this;
+   popMin(): T | undefined;
+   popMax(): T | undefined;
+   peekMin(): T | undefined;
+   peekMax(): T | undefined;
+   isValid(): boolean;
+}
+
+interface TopKMethods<T> extends ICollection<T> {
+   readonly k: number;
+   readonly isFull: boolean;
+
+   add(item: T): this;
+   addAll(items: Iterable<T>): this;
+   merge(other: ITopK<T>): this;
+   peek(): T | undefined;
+}
+
+interface PairingHeapMethods<T> {
+   insert(item: T): HeapHandle<T>;
+   meld(other: IPairingHeap<T>): this;
+   decreaseKey(handle: HeapHandle<T>, item: T): this;
+   remove(handle: HeapHandle<T>): boolean;
+   contains(handle: HeapHandle<T>): boolean;
 }
 
 export interface HeapqIterators<T> {
@@ -25,19 +121,58 @@ export interface HeapqIterators<T> {
 
 export interface IHeap<T> extends HeapqMethods<T>, HeapqIterators<T> {}
 
+export interface IIndexedHeap<T> extends IndexedHeapMethods<T>, HeapqIterators<T> {}
+
+export interface IPairingHeap<T> extends IHeap<T>, PairingHeapMethods<T> {}
+
+export interface IMinMaxHeap<T> extends MinMaxHeapMethods<T>, HeapqIterators<T> {}
+
+export interface ITopK<T> extends TopKMethods<T> {
+   [Symbol.iterator](): IterableIterator<T>;
+}
+
 export interface HeapqStatic {
    of<T>(...items: T[]): IHeap<T>;
    isHeapq<T>(value: any): value is IHeap<T>;
-   //merge<T>(...iterables: Iterable<T>[]): IHeap<T>;
-   heapify<T>(arr: T[], comparator?: CompareFn<T>): void;
-   heapPush<T>(arr: T[], item: T, comparator?: CompareFn<T>): void;
-   heapPop<T>(arr: T[], comparator?: CompareFn<T>): T | undefined;
-   heapPushPop<T>(arr: T[], item: T, comparator?: CompareFn<T>): T | undefined;
-   heapReplace<T>(arr: T[], item: T, comparator?: CompareFn<T>): T | undefined;
-   nsmallest<T>(n: number, iterable: Iterable<T>, key?: (item: T) => number): T[];
-   nlargest<T>(n: number, iterable: Iterable<T>, key?: (item: T) => number): T[];
+   isHeap<T>(arr: StableEntry<T>[], options: StableHeapOptions<T>): boolean;
+   isHeap<T>(arr: T[], options?: CompareFn<T> | HeapOptions<T>): boolean;
+   merge<T>(...iterables: (Iterable<T> | MergeOptions<T>)[]): IterableIterator<T>;
+   mergeAsync<T>(...iterables: (AsyncIterable<T> | Iterable<T> | MergeOptions<T>)[]): AsyncIterableIterator<T>;
+   heapify<T>(arr: StableEntry<T>[], options: StableHeapOptions<T>): void;
+   heapify<T>(arr: T[], options?: CompareFn<T> | HeapOptions<T>): void;
+   heapPush<T>(arr: StableEntry<T>[], item: T, options: StableHeapOptions<T>): void;
+   heapPush<T>(arr: T[], item: T, options?: CompareFn<T> | HeapOptions<T>): void;
+   heapPop<T>(arr: StableEntry<T>[], options: StableHeapOptions<T>): T | undefined;
+   heapPop<T>(arr: T[], options?: CompareFn<T> | HeapOptions<T>): T | undefined;
+   heapPushPop<T>(arr: StableEntry<T>[], item: T, options: StableHeapOptions<T>): T | undefined;
+   heapPushPop<T>(arr: T[], item: T, options?: CompareFn<T> | HeapOptions<T>): T | undefined;
+   heapReplace<T>(arr: StableEntry<T>[], item: T, options: StableHeapOptions<T>): T | undefined;
+   heapReplace<T>(arr: T[], item: T, options?: CompareFn<T> | HeapOptions<T>): T | undefined;
+   nsmallest<T>(n: number, iterable: Iterable<T>, key?: KeyFn<T>): T[];
+   nlargest<T>(n: number, iterable: Iterable<T>, key?: KeyFn<T>): T[];
 }
 
 export interface HeapqConstructor extends HeapqStatic {
-   from<T>(iterable: Iterable<T>, comparator?: CompareFn<T>): IHeap<T>;
+   from<T>(iterable: Iterable<T>, options?: CompareFn<T> | HeapOptions<T>): IHeap<T>;
+}
+
+export interface HeapConstructor {
+   new <T>(iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>, options?: CompareFn<T> | HeapOptions<T>): IHeap<T>;
+   from<T>(iterable: Iterable<T>, options?: CompareFn<T> | HeapOptions<T>): IHeap<T>;
+   minHeap<T>(
+      iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>,
+      options?: CompareFn<T> | HeapOptions<T>
+   ): IHeap<T>;
+   maxHeap<T>(
+      iterable?: Iterable<T> | CompareFn<T> | HeapOptions<T>,
+      options?: CompareFn<T> | HeapOptions<T>
+   ): IHeap<T>;
+}
+
+export interface MinMaxHeapConstructor {
+   new <T>(
+      iterable?: Iterable<T> | CompareFn<T> | MinMaxHeapOptions<T>,
+      options?: CompareFn<T> | MinMaxHeapOptions<T>
+   ): IMinMaxHeap<T>;
+   from<T>(iterable: Iterable<T>, options?: CompareFn<T> | MinMaxHeapOptions<T>): IMinMaxHeap<T>;
 }
@@ -1,6 +1,13 @@
 export * from './collection.interfaces';
 export * from './counter.interfaces';
 export * from './deque.interfaces';
+export * from './asyncdeque.interfaces';
+export * from './numericdeque.interfaces';
+export * from './sharedringbuffer.interfaces';
+export * from './slidingwindow.interfaces';
 export * from './ordereddict.interfaces';
 export * from './heap.interfaces';
+export * from './priorityscheduler.interfaces';
+export * from './delayqueue.interfaces';
+export * from './runningquantile.interfaces';
 export * from './defaultdict.interfaces';
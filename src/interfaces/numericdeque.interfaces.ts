@@ -0,0 +1,40 @@
+import { NumericArray, NumericArrayConstructor } from '../types';
+import { ICollection, IterationOptions } from './collection.interfaces';
+
+export interface NumericDequeOptions extends IterationOptions {
+   arrayType?: NumericArrayConstructor;
+   capacity?: number;
+   maxlen?: number;
+}
+
+interface NumericDequeMethods extends ICollection<number> {
+   readonly capacity: number;
+   readonly maxlen: number | undefined;
+   readonly isFull: boolean;
+
+   push(value: number): this;
+   pushLeft(value: number): this;
+
+   pop(): number | undefined;
+   popLeft(): number | undefined;
+
+   get(index?: number): number | undefined;
+   set(index: number, value: number): this;
+
+   extend(values: ArrayLike<number> | Iterable<number>): this;
+   extendLeft(values: Iterable<number>): this;
+
+   toTypedArray(): NumericArray;
+}
+
+export interface NumericDequeIterators {
+   [Symbol.iterator](): IterableIterator<number>;
+   values(): IterableIterator<number>;
+}
+
+export interface INumericDeque extends NumericDequeMethods, NumericDequeIterators {}
+
+export interface NumericDequeConstructor {
+   new (options?: NumericDequeOptions): INumericDeque;
+   from(values: ArrayLike<number> | Iterable<number>, options?: NumericDequeOptions): INumericDeque;
+}
@@ -1,4 +1,6 @@
-import { ICollection } from './collection.interfaces';
+import { ICollection, IterationOptions } from './collection.interfaces';
+
+export type OrderedDictOptions = IterationOptions;
 
 interface OrderedDictMethods<K, V> extends ICollection<[K, V]> {
    getItem(key: K, defaultValue?: V): V | undefined;
@@ -23,7 +25,7 @@ export interface IOrderedDict<K, V> extends OrderedDictMethods<K, V>, OrderedDic
 
 export interface OrderedDictConstructor {
    new <K, V>(): IOrderedDict<K, V>;
-   new <K, V>(iterable: Iterable<[K, V]>): IOrderedDict<K, V>;
+   new <K, V>(iterable: Iterable<[K, V]>, options?: OrderedDictOptions): IOrderedDict<K, V>;
    from<K, V>(iterable: Iterable<[K, V]>): IOrderedDict<K, V>;
 }
 
@@ -0,0 +1,53 @@
+import { HeapHandle } from './heap.interfaces';
+
+export type SchedulerTask<R> = () => R | PromiseLike<R>;
+
+export type TaskStatus = 'queued' | 'running' | 'settled' | 'cancelled';
+
+export interface PrioritySchedulerOptions {
+   concurrency?: number;
+   autoStart?: boolean;
+}
+
+export interface ScheduleOptions {
+   priority?: number;
+}
+
+export interface ScheduledTask<R> {
+   readonly priority: number;
+   readonly status: TaskStatus;
+   readonly promise: Promise<R>;
+}
+
+export interface SchedulerJob<R = unknown> extends ScheduledTask<R> {
+   task: SchedulerTask<R>;
+   priority: number;
+   status: TaskStatus;
+   promise: Promise<R>;
+   handle?: HeapHandle<SchedulerJob>;
+   resolve(value: R | PromiseLike<R>): void;
+   reject(reason: unknown): void;
+}
+
+export interface IPriorityScheduler {
+   readonly size: number;
+   readonly isEmpty: boolean;
+   readonly pending: number;
+   readonly concurrency: number;
+   readonly isPaused: boolean;
+
+   schedule<R>(task: SchedulerTask<R>, options?: ScheduleOptions): ScheduledTask<R>;
+   cancel(task: ScheduledTask<unknown>): boolean;
+   setPriority(task: ScheduledTask<unknown>, priority: number): boolean;
+
+   pause(): void;
+   resume(): void;
+   clear(): void;
+
+   onEmpty(): Promise<void>;
+   onIdle(): Promise<void>;
+}
+
+export interface PrioritySchedulerConstructor {
+   new (options?: PrioritySchedulerOptions): IPriorityScheduler;
+}
@@ -0,0 +1,26 @@
+import { ICollection } from './collection.interfaces';
+
+export interface RunningQuantileOptions {
+   maxSize?: number;
+}
+
+export interface IRunningQuantile extends ICollection<number> {
+   readonly q: number;
+   readonly quantile: number | undefined;
+   readonly maxSize: number | undefined;
+
+   add(value: number): this;
+   remove(value: number): boolean;
+}
+
+export interface IRunningMedian extends IRunningQuantile {
+   readonly median: number | undefined;
+}
+
+export interface RunningQuantileConstructor {
+   new (q: number, options?: RunningQuantileOptions): IRunningQuantile;
+}
+
+export interface RunningMedianConstructor {
+   new (options?: RunningQuantileOptions): IRunningMedian;
+}
@@ -0,0 +1,43 @@
+import { ICollection } from './collection.interfaces';
+
+export interface RecordCodec<T> {
+   size: number;
+   encode(item: T, target: Float64Array, offset: number): void;
+   decode(source: Float64Array, offset: number): T;
+}
+
+export interface SharedRingBufferOptions<T> {
+   capacity?: number;
+   codec?: RecordCodec<T>;
+   buffer?: SharedArrayBuffer;
+}
+
+export type AtomicsWaitAsync = (
+   typedArray: Int32Array,
+   index: number,
+   value: number,
+   timeout?: number
+) => { async: false; value: 'not-equal' | 'timed-out' } | { async: true; value: Promise<'ok' | 'timed-out'> };
+
+interface SharedRingBufferMethods<T> extends ICollection<T> {
+   readonly buffer: SharedArrayBuffer;
+   readonly capacity: number;
+   readonly isFull: boolean;
+   readonly isClosed: boolean;
+
+   tryPush(item: T): boolean;
+   push(item: T, timeout?: number): boolean;
+
+   tryPop(): T | undefined;
+   pop(timeout?: number): T | undefined;
+   popAsync(timeout?: number): Promise<T | undefined>;
+
+   close(): void;
+}
+
+export interface ISharedRingBuffer<T> extends SharedRingBufferMethods<T> {}
+
+export interface SharedRingBufferConstructor {
+   new <T = number>(options?: SharedRingBufferOptions<T>): ISharedRingBuffer<T>;
+   attach<T = number>(buffer: SharedArrayBuffer, codec?: RecordCodec<T>): ISharedRingBuffer<T>;
+}
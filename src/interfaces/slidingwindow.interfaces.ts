@@ -0,0 +1,28 @@
+import { CompareFn } from '../types';
+import { ICollection } from './collection.interfaces';
+
+export interface SlidingWindowOptions<T> {
+   comparator?: CompareFn<T>;
+   maxSize?: number;
+   maxAge?: number;
+   clock?: () => number;
+}
+
+interface SlidingWindowMethods<T> extends ICollection<T> {
+   readonly min: T | undefined;
+   readonly max: T | undefined;
+   readonly sum: number;
+   readonly mean: number | undefined;
+
+   push(value: T, timestamp?: number): this;
+   evict(count?: number): this;
+   evictExpired(now?: number): this;
+}
+
+export interface ISlidingWindow<T> extends SlidingWindowMethods<T> {
+   [Symbol.iterator](): IterableIterator<T>;
+}
+
+export interface SlidingWindowConstructor {
+   new <T>(options?: SlidingWindowOptions<T>): ISlidingWindow<T>;
+}
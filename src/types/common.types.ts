@@ -3,4 +3,28 @@ export type PredicateFn<T> = (item: T) => boolean;
 export type DefaultFactory<T> = () => T;
 export type ForEachCallback<V, K> = (value: V, key: K, map: Map<K, V>) => void;
 export type MapCallback<T, U> = (item: T, index: number) => U;
-export type KeyFn<T> = (item: T) => number;
+export type ReduceCallback<T, U> = (accumulator: U, item: T, index: number) => U;
+export type Comparable = number | string | bigint | boolean | Date | readonly Comparable[];
+export type KeyFn<T> = (item: T) => Comparable;
+export type EvictCallback<T> = (item: T) => void;
+export type MoveCallback<T> = (item: T, index: number) => void;
+export type NumericArray =
+   | Float64Array
+   | Float32Array
+   | Int32Array
+   | Uint32Array
+   | Int16Array
+   | Uint16Array
+   | Int8Array
+   | Uint8Array
+   | Uint8ClampedArray;
+export type NumericArrayConstructor =
+   | Float64ArrayConstructor
+   | Float32ArrayConstructor
+   | Int32ArrayConstructor
+   | Uint32ArrayConstructor
+   | Int16ArrayConstructor
+   | Uint16ArrayConstructor
+   | Int8ArrayConstructor
+   | Uint8ArrayConstructor
+   | Uint8ClampedArrayConstructor;
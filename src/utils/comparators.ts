@@ -1,7 +1,37 @@
-import { CompareFn } from '../types/common.types';
+import { CompareFn, KeyFn } from '../types/common.types';
 
+/**
+ * Compares two values with `<` and `>`. Works for numbers, strings, bigints, booleans and dates;
+ * arrays are compared element by element (lexicographically), so tuples can be used as sort keys.
+ */
 export const defaultComparator: CompareFn<any> = (a, b) => {
+   if (Array.isArray(a) && Array.isArray(b)) {
+      const length = Math.min(a.length, b.length);
+      for (let i = 0; i < length; i++) {
+         const result = defaultComparator(a[i], b[i]);
+         if (result !== 0) return result;
+      }
+      return defaultComparator(a.length, b.length);
+   }
    if (a < b) return -1;
    if (a > b) return 1;
    return 0;
 };
+
+/**
+ * Builds a comparator that orders items by the value of a key function.
+ * @param key The function that extracts the sort key from an item.
+ * @returns A comparator comparing the keys with `defaultComparator`.
+ */
+export const keyComparator = <T>(key: KeyFn<T>): CompareFn<T> => {
+   return (a, b) => defaultComparator(key(a), key(b));
+};
+
+/**
+ * Builds a comparator that orders items in the opposite direction.
+ * @param comparator The comparator to reverse.
+ * @returns The reversed comparator.
+ */
+export const reverseComparator = <T>(comparator: CompareFn<T>): CompareFn<T> => {
+   return (a, b) => -comparator(a, b);
+};
@@ -0,0 +1,39 @@
+/**
+ * Thrown by fail-fast iterators when the underlying collection is structurally
+ * modified during iteration, similar to Java's `ConcurrentModificationException`.
+ * @example
+ * ```typescript
+ * const deque = Deque.of(1, 2, 3);
+ * for (const item of deque) {
+ *   deque.popLeft(); // the next step throws ConcurrentModificationError
+ * }
+ * ```
+ */
+export class ConcurrentModificationError extends Error {
+   constructor(collection: string) {
+      super(`${collection} was modified during iteration`);
+      this.name = 'ConcurrentModificationError';
+   }
+}
+
+/**
+ * Rejects the promise of a task that was cancelled before it started,
+ * either with `PriorityScheduler.cancel()` or `PriorityScheduler.clear()`.
+ */
+export class TaskCancelledError extends Error {
+   constructor() {
+      super('Task was cancelled before it started');
+      this.name = 'TaskCancelledError';
+   }
+}
+
+/**
+ * Thrown in debug mode when a heap no longer satisfies the heap property, or when its
+ * comparator is inconsistent (not antisymmetric or not transitive). The message names the offending pair.
+ */
+export class HeapInvariantError extends Error {
+   constructor(message: string) {
+      super(message);
+      this.name = 'HeapInvariantError';
+   }
+}
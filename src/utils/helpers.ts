@@ -5,3 +5,29 @@ export function swap<T>(array: T[], i: number, j: number): void {
 
    [array[i], array[j]] = [array[j], array[i]];
 }
+
+/**
+ * Checks whether a value implements the iterable protocol.
+ * @param value The value to check.
+ * @returns True if the value is iterable, false otherwise.
+ */
+export function isIterable<T>(value: unknown): value is Iterable<T> {
+   return value != null && typeof (value as Iterable<T>)[Symbol.iterator] === 'function';
+}
+
+/**
+ * Gets the smallest power of 2 that is greater than or equal to n.
+ * Ring buffers use power-of-two sizes so indices can wrap with a bit mask.
+ * @param n The number to check.
+ * @returns The smallest power of 2 greater than or equal to n.
+ */
+export function pow2AtLeast(n: number): number {
+   n = n >>> 0;
+   n = n - 1;
+   n |= n >> 1;
+   n |= n >> 2;
+   n |= n >> 4;
+   n |= n >> 8;
+   n |= n >> 16;
+   return n + 1;
+}
@@ -1,3 +1,4 @@
 export * from './validators';
 export * from './iterators';
 export * from './helpers';
+export * from './errors';
@@ -0,0 +1,220 @@
+import { AsyncDeque } from '../../../src/index';
+
+describe('AsyncDeque', () => {
+  let queue: AsyncDeque<number>;
+
+  beforeEach(() => {
+    queue = new AsyncDeque<number>();
+  });
+
+  describe('Initialization', () => {
+    test('should create empty unbounded deque', () => {
+      expect(queue.size).toBe(0);
+      expect(queue.isEmpty).toBe(true);
+      expect(queue.maxsize).toBeUndefined();
+      expect(queue.isFull).toBe(false);
+      expect(queue.isClosed).toBe(false);
+    });
+
+    test('should reject invalid maxsize', () => {
+      expect(() => new AsyncDeque({ maxsize: 0 })).toThrow(RangeError);
+      expect(() => new AsyncDeque({ maxsize: 2.5 })).toThrow(RangeError);
+    });
+  });
+
+  describe('Synchronous fast path', () => {
+    test('tryPush and tryPopLeft should work without waiting', () => {
+      expect(queue.tryPush(1)).toBe(true);
+      expect(queue.tryPushLeft(0)).toBe(true);
+      expect(queue.toArray()).toEqual([0, 1]);
+      expect(queue.tryPopLeft()).toBe(0);
+      expect(queue.tryPop()).toBe(1);
+      expect(queue.tryPop()).toBeUndefined();
+    });
+
+    test('tryPush should return false when full', () => {
+      const bounded = new AsyncDeque<number>({ maxsize: 1 });
+      expect(bounded.tryPush(1)).toBe(true);
+      expect(bounded.isFull).toBe(true);
+      expect(bounded.tryPush(2)).toBe(false);
+    });
+
+    test('popLeft should resolve immediately when items are available', async () => {
+      await queue.push(1);
+      await queue.push(2);
+      expect(await queue.popLeft()).toBe(1);
+      expect(await queue.pop()).toBe(2);
+    });
+  });
+
+  describe('Blocking pops', () => {
+    test('popLeft should wait for an item to arrive', async () => {
+      const pending = queue.popLeft();
+      queue.tryPush(42);
+      await expect(pending).resolves.toBe(42);
+      expect(queue.isEmpty).toBe(true);
+    });
+
+    test('waiting consumers should be served in FIFO order', async () => {
+      const first = queue.popLeft();
+      const second = queue.pop();
+      await queue.push(1);
+      await queue.push(2);
+      await expect(first).resolves.toBe(1);
+      await expect(second).resolves.toBe(2);
+    });
+
+    test('should reject after the timeout', async () => {
+      jest.useFakeTimers();
+      try {
+        const pending = queue.popLeft({ timeout: 100 });
+        jest.advanceTimersByTime(100);
+        await expect(pending).rejects.toThrow('timed out');
+
+        queue.tryPush(1);
+        expect(queue.size).toBe(1);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    test('should reject when aborted', async () => {
+      const controller = new AbortController();
+      const pending = queue.popLeft({ signal: controller.signal });
+      controller.abort(new Error('cancelled'));
+      await expect(pending).rejects.toThrow('cancelled');
+
+      queue.tryPush(1);
+      expect(queue.size).toBe(1);
+    });
+
+    test('should reject immediately with an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort(new Error('cancelled'));
+      await expect(queue.popLeft({ signal: controller.signal })).rejects.toThrow('cancelled');
+    });
+  });
+
+  describe('Bounded capacity', () => {
+    test('push should wait until space frees up', async () => {
+      const bounded = new AsyncDeque<number>({ maxsize: 2 });
+      await bounded.push(1);
+      await bounded.push(2);
+
+      let resolved = false;
+      const pending = bounded.push(3).then(() => {
+        resolved = true;
+      });
+      await Promise.resolve();
+      expect(resolved).toBe(false);
+      expect(bounded.size).toBe(2);
+
+      expect(await bounded.popLeft()).toBe(1);
+      await pending;
+      expect(resolved).toBe(true);
+      expect(bounded.toArray()).toEqual([2, 3]);
+    });
+
+    test('pushLeft should insert at the front once space frees up', async () => {
+      const bounded = new AsyncDeque<number>({ maxsize: 1 });
+      await bounded.push(1);
+      const pending = bounded.pushLeft(0);
+      expect(bounded.tryPop()).toBe(1);
+      await pending;
+      expect(bounded.toArray()).toEqual([0]);
+    });
+
+    test('clear should admit waiting producers', async () => {
+      const bounded = new AsyncDeque<number>({ maxsize: 1 });
+      await bounded.push(1);
+      const pending = bounded.push(2);
+      bounded.clear();
+      await pending;
+      expect(bounded.toArray()).toEqual([2]);
+    });
+
+    test('push should time out when no space frees up', async () => {
+      jest.useFakeTimers();
+      try {
+        const bounded = new AsyncDeque<number>({ maxsize: 1 });
+        bounded.tryPush(1);
+        const pending = bounded.push(2, { timeout: 50 });
+        jest.advanceTimersByTime(50);
+        await expect(pending).rejects.toThrow('timed out');
+
+        bounded.tryPop();
+        expect(bounded.isEmpty).toBe(true);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('close', () => {
+    test('should reject waiting consumers and producers', async () => {
+      const consumer = queue.popLeft();
+      queue.close();
+      await expect(consumer).rejects.toThrow('closed');
+
+      const bounded = new AsyncDeque<number>({ maxsize: 1 });
+      bounded.tryPush(1);
+      const producer = bounded.push(2);
+      bounded.close();
+      await expect(producer).rejects.toThrow('closed');
+    });
+
+    test('should reject new items but allow draining existing ones', async () => {
+      queue.tryPush(1);
+      queue.close();
+
+      expect(queue.isClosed).toBe(true);
+      expect(() => queue.tryPush(2)).toThrow('closed');
+      await expect(queue.push(2)).rejects.toThrow('closed');
+      await expect(queue.popLeft()).resolves.toBe(1);
+      await expect(queue.popLeft()).rejects.toThrow('closed');
+    });
+  });
+
+  describe('Async iteration', () => {
+    test('should consume items until closed and drained', async () => {
+      const consumed: number[] = [];
+      const consumer = (async () => {
+        for await (const item of queue) {
+          consumed.push(item);
+        }
+      })();
+
+      await queue.push(1);
+      await queue.push(2);
+      await Promise.resolve();
+      await queue.push(3);
+      queue.close();
+      await consumer;
+
+      expect(consumed).toEqual([1, 2, 3]);
+    });
+
+    test('should connect several producers and consumers', async () => {
+      const bounded = new AsyncDeque<number>({ maxsize: 4 });
+      const produce = async (start: number): Promise<void> => {
+        for (let i = start; i < start + 50; i++) {
+          await bounded.push(i);
+        }
+      };
+      const consume = async (): Promise<number[]> => {
+        const items: number[] = [];
+        for await (const item of bounded) items.push(item);
+        return items;
+      };
+
+      const consumers = [consume(), consume()];
+      await Promise.all([produce(0), produce(100)]);
+      bounded.close();
+      const results = await Promise.all(consumers);
+
+      const all = results.flat().sort((a, b) => a - b);
+      expect(all).toHaveLength(100);
+      expect(new Set(all).size).toBe(100);
+    });
+  });
+});
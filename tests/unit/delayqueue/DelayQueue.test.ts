@@ -0,0 +1,243 @@
+import { DelayBackend, DelayQueue } from '../../../src/index';
+
+describe('DelayQueue', () => {
+  let now: number;
+  const clock = (): number => now;
+
+  beforeEach(() => {
+    now = 1000;
+  });
+
+  describe('Initialization', () => {
+    test('should create an empty queue', () => {
+      const queue = new DelayQueue<string>({ clock });
+      expect(queue.size).toBe(0);
+      expect(queue.isEmpty).toBe(true);
+      expect(queue.nextDueAt).toBeUndefined();
+      expect(queue.poll()).toEqual([]);
+    });
+
+    test('should reject invalid options', () => {
+      expect(() => new DelayQueue({ backend: 'list' as DelayBackend })).toThrow(TypeError);
+      expect(() => new DelayQueue({ backend: 'wheel', tickMs: 0 })).toThrow(RangeError);
+      expect(() => new DelayQueue({ backend: 'wheel', wheelSize: 1 })).toThrow(RangeError);
+      expect(() => new DelayQueue({ backend: 'wheel', wheelLevels: 0 })).toThrow(RangeError);
+      expect(() => new DelayQueue({ clock }).push('a', NaN)).toThrow(RangeError);
+      expect(() => new DelayQueue({ clock }).pushAt('a', Infinity)).toThrow(RangeError);
+    });
+  });
+
+  describe.each<DelayBackend>(['heap', 'wheel'])('%s backend', backend => {
+    const create = <T>(): DelayQueue<T> => new DelayQueue<T>({ clock, backend, tickMs: 10, wheelSize: 4, wheelLevels: 2 });
+
+    test('poll should return due items in due order', () => {
+      const queue = create<string>();
+      queue.push('c', 300);
+      queue.push('a', 100);
+      queue.pushAt('b', 1200);
+      queue.push('now');
+
+      expect(queue.size).toBe(4);
+      expect(queue.nextDueAt).toBe(1000);
+      expect(queue.toArray()).toEqual(['now', 'a', 'b', 'c']);
+      expect(queue.poll()).toEqual(['now']);
+
+      now = 1250;
+      expect(queue.poll()).toEqual(['a', 'b']);
+      expect(queue.nextDueAt).toBe(1300);
+      expect(queue.poll(5000)).toEqual(['c']);
+      expect(queue.isEmpty).toBe(true);
+    });
+
+    test('should release items due at the same time in insertion order', () => {
+      const queue = create<number>();
+      [1, 2, 3, 4].forEach(item => queue.push(item, 500));
+      now = 1500;
+      expect(queue.poll()).toEqual([1, 2, 3, 4]);
+    });
+
+    test('should cancel pending items', () => {
+      const queue = create<string>();
+      const a = queue.push('a', 100);
+      queue.push('b', 200);
+
+      expect(queue.cancel(a)).toBe(true);
+      expect(queue.cancel(a)).toBe(false);
+      expect(queue.nextDueAt).toBe(1200);
+
+      now = 1200;
+      const [b] = queue.poll();
+      expect(b).toBe('b');
+      expect(queue.size).toBe(0);
+    });
+
+    test('should reach items far beyond the wheel range', () => {
+      const queue = create<string>();
+      queue.push('far', 10_000);
+      queue.push('near', 30);
+
+      now = 1030;
+      expect(queue.poll()).toEqual(['near']);
+      now = 10_990;
+      expect(queue.poll()).toEqual([]);
+      now = 11_000;
+      expect(queue.poll()).toEqual(['far']);
+    });
+
+    test('should match a sorted reference under random operations', () => {
+      let seed = 3;
+      const random = (): number => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+
+      const queue = create<number>();
+      const live = new Map<number, ReturnType<DelayQueue<number>['push']>>();
+      let id = 0;
+      for (let step = 0; step < 3000; step++) {
+        const op = random();
+        if (op < 0.5) {
+          // Multiples of the tick keep both backends on the same due times.
+          live.set(id, queue.push(id, Math.floor(random() * 400) * 10));
+          id++;
+        } else if (op < 0.6 && live.size > 0) {
+          const keys = [...live.keys()];
+          const key = keys[Math.floor(random() * keys.length)];
+          expect(queue.cancel(live.get(key)!)).toBe(true);
+          live.delete(key);
+        } else {
+          now += Math.floor(random() * 50) * 10;
+          const expected = [...live.values()]
+            .filter(handle => handle.dueAt <= now)
+            .sort((a, b) => a.dueAt - b.dueAt || a.item - b.item)
+            .map(handle => handle.item);
+          expect(queue.poll()).toEqual(expected);
+          expected.forEach(item => live.delete(item));
+        }
+        expect(queue.size).toBe(live.size);
+        const next = Math.min(...[...live.values()].map(handle => handle.dueAt));
+        expect(queue.nextDueAt).toBe(live.size > 0 ? next : undefined);
+      }
+    });
+  });
+
+  describe('Wheel backend', () => {
+    test('should round due times up to the tick', () => {
+      const queue = new DelayQueue<string>({ clock, backend: 'wheel', tickMs: 100 });
+      const handle = queue.push('a', 150);
+      expect(handle.dueAt).toBe(1200);
+
+      now = 1199;
+      expect(queue.poll()).toEqual([]);
+      now = 1200;
+      expect(queue.poll()).toEqual(['a']);
+    });
+
+    test('should skip idle ticks when the clock jumps by days', () => {
+      const hour = 60 * 60 * 1000;
+      const queue = new DelayQueue<string>({ clock, backend: 'wheel' });
+      queue.push('later', 48 * hour);
+      queue.push('soon', 5);
+
+      const start = performance.now();
+      now += 24 * hour;
+      expect(queue.poll()).toEqual(['soon']);
+      now += 24 * hour - 1;
+      expect(queue.poll()).toEqual([]);
+      now += 1;
+      expect(queue.poll()).toEqual(['later']);
+      expect(performance.now() - start).toBeLessThan(500);
+    });
+
+    test('clear should remove every item', () => {
+      const queue = new DelayQueue<string>({ clock, backend: 'wheel' });
+      const handle = queue.push('a', 10);
+      queue.push('b', 1_000_000_000);
+      queue.clear();
+      expect(queue.isEmpty).toBe(true);
+      expect(queue.cancel(handle)).toBe(false);
+      now += 1_000_000_000;
+      expect(queue.poll()).toEqual([]);
+    });
+  });
+
+  describe('take', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: 0 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test.each<DelayBackend>(['heap', 'wheel'])('should resolve at the next due time (%s)', async backend => {
+      const queue = new DelayQueue<string>({ backend });
+      queue.push('later', 200);
+      const taken: string[] = [];
+      queue.take().then(item => taken.push(item));
+      queue.take().then(item => taken.push(item));
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(taken).toEqual([]);
+
+      queue.push('sooner', 50);
+      await jest.advanceTimersByTimeAsync(50);
+      expect(taken).toEqual(['sooner']);
+
+      await jest.advanceTimersByTimeAsync(50);
+      expect(taken).toEqual(['sooner', 'later']);
+      expect(queue.isEmpty).toBe(true);
+    });
+
+    test('should resolve immediately with a due item', async () => {
+      const queue = new DelayQueue<string>();
+      queue.push('ready');
+      await expect(queue.take()).resolves.toBe('ready');
+    });
+
+    test('should wait for items pushed later and skip cancelled ones', async () => {
+      const queue = new DelayQueue<string>();
+      const taken = queue.take();
+      const cancelled = queue.push('cancelled', 10);
+      queue.push('kept', 20);
+      queue.cancel(cancelled);
+
+      await jest.advanceTimersByTimeAsync(20);
+      await expect(taken).resolves.toBe('kept');
+    });
+
+    test('should wait for items due beyond the setTimeout limit', async () => {
+      const day = 24 * 60 * 60 * 1000;
+      const queue = new DelayQueue<string>();
+      queue.push('far', 40 * day);
+      const taken: string[] = [];
+      queue.take().then(item => taken.push(item));
+
+      await jest.advanceTimersByTimeAsync(39 * day);
+      expect(taken).toEqual([]);
+      expect(jest.getTimerCount()).toBe(1);
+
+      await jest.advanceTimersByTimeAsync(day);
+      expect(taken).toEqual(['far']);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    test('should support timeout and abort', async () => {
+      const queue = new DelayQueue<string>();
+      queue.push('late', 1000);
+
+      const timedOut = queue.take({ timeout: 100 });
+      const assertion = expect(timedOut).rejects.toThrow('DelayQueue wait timed out after 100ms');
+      await jest.advanceTimersByTimeAsync(100);
+      await assertion;
+
+      const controller = new AbortController();
+      const aborted = queue.take({ signal: controller.signal });
+      controller.abort(new Error('stop'));
+      await expect(aborted).rejects.toThrow('stop');
+
+      expect(jest.getTimerCount()).toBe(0);
+      expect(queue.size).toBe(1);
+    });
+  });
+});
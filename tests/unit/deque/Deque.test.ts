@@ -1,4 +1,4 @@
-import { Deque } from '../../../src/index';
+import { ConcurrentModificationError, Deque } from '../../../src/index';
 
 describe('Deque', () => {
   let deque: Deque<number>;
@@ -19,6 +19,68 @@ describe('Deque', () => {
       expect(dequeFromArray.size).toBe(4);
       expect(dequeFromArray.toArray()).toEqual([1, 2, 3, 4]);
     });
+
+    test('should create deque from any iterable', () => {
+      expect(new Deque(new Set([1, 2, 3])).toArray()).toEqual([1, 2, 3]);
+      expect(new Deque('abc').toArray()).toEqual(['a', 'b', 'c']);
+    });
+
+    test('should create deque from an options object', () => {
+      const bounded = new Deque<number>({ capacity: 64, maxlen: 3, items: [1, 2, 3, 4] });
+      expect(bounded.toArray()).toEqual([2, 3, 4]);
+      expect(bounded.maxlen).toBe(3);
+
+      const empty = new Deque<number>({ capacity: 64 });
+      expect(empty.isEmpty).toBe(true);
+      expect(empty.maxlen).toBeUndefined();
+    });
+  });
+
+  describe('Static methods', () => {
+    test('of should create deque from arguments', () => {
+      expect(Deque.of(1, 2, 3).toArray()).toEqual([1, 2, 3]);
+    });
+
+    test('from should accept arrays', () => {
+      expect(Deque.from([1, 2, 3]).toArray()).toEqual([1, 2, 3]);
+    });
+
+    test('from should accept Sets, Map iterators and generators', () => {
+      function* generate(): Generator<number> {
+        yield 1;
+        yield 2;
+      }
+      const map = new Map([['a', 1], ['b', 2]]);
+
+      expect(Deque.from(new Set([1, 2, 2, 3])).toArray()).toEqual([1, 2, 3]);
+      expect(Deque.from(map.values()).toArray()).toEqual([1, 2]);
+      expect(Deque.from(generate()).toArray()).toEqual([1, 2]);
+    });
+
+    test('from should accept another deque', () => {
+      const source = Deque.of(1, 2, 3);
+      const copy = Deque.from(source);
+      copy.push(4);
+      expect(copy.toArray()).toEqual([1, 2, 3, 4]);
+      expect(source.toArray()).toEqual([1, 2, 3]);
+    });
+
+    test('from should accept array-likes', () => {
+      const arrayLike = { length: 3, 0: 'a', 1: 'b', 2: 'c' };
+      expect(Deque.from(arrayLike).toArray()).toEqual(['a', 'b', 'c']);
+      expect(Deque.from({ length: 2 } as ArrayLike<number>, (_, index) => index * 10).toArray()).toEqual([0, 10]);
+    });
+
+    test('from should apply the map function with indices', () => {
+      const result = Deque.from(new Set([1, 2, 3]), (item, index) => `${index}:${item * 2}`);
+      expect(result.toArray()).toEqual(['0:2', '1:4', '2:6']);
+    });
+
+    test('isDeque should detect deques', () => {
+      expect(Deque.isDeque(new Deque())).toBe(true);
+      expect(Deque.isDeque([1, 2, 3])).toBe(false);
+      expect(Deque.isDeque(null)).toBe(false);
+    });
   });
 
   describe('pushLeft', () => {
@@ -297,6 +359,599 @@ describe('Deque', () => {
     });
   });
 
+  describe('maxlen', () => {
+    test('should be unbounded by default', () => {
+      expect(deque.maxlen).toBeUndefined();
+      deque.extend([1, 2, 3]);
+      expect(deque.isFull).toBe(false);
+    });
+
+    test('should evict from the left when pushing into a full deque', () => {
+      const bounded = new Deque<number>([], { maxlen: 3 });
+      bounded.extend([1, 2, 3]);
+      expect(bounded.isFull).toBe(true);
+
+      bounded.push(4);
+      expect(bounded.size).toBe(3);
+      expect(bounded.toArray()).toEqual([2, 3, 4]);
+    });
+
+    test('should evict from the right when pushing left into a full deque', () => {
+      const bounded = new Deque<number>([1, 2, 3], { maxlen: 3 });
+      bounded.pushLeft(0);
+      expect(bounded.toArray()).toEqual([0, 1, 2]);
+    });
+
+    test('should respect the bound in extend and extendLeft', () => {
+      const bounded = new Deque<number>(16, { maxlen: 3 });
+      bounded.extend([1, 2, 3, 4, 5]);
+      expect(bounded.toArray()).toEqual([3, 4, 5]);
+
+      bounded.extendLeft([6, 7]);
+      expect(bounded.toArray()).toEqual([7, 6, 3]);
+    });
+
+    test('should keep the last items when initialized with too many', () => {
+      const bounded = new Deque<number>([1, 2, 3, 4, 5], { maxlen: 2 });
+      expect(bounded.toArray()).toEqual([4, 5]);
+    });
+
+    test('should report evicted items to the callback', () => {
+      const evicted: number[] = [];
+      const bounded = new Deque<number>([], { maxlen: 2, onEvict: item => evicted.push(item) });
+      bounded.extend([1, 2, 3, 4]);
+      bounded.pushLeft(0);
+
+      expect(evicted).toEqual([1, 2, 4]);
+      expect(bounded.toArray()).toEqual([0, 3]);
+    });
+
+    test('should drop every item when maxlen is 0', () => {
+      const evicted: number[] = [];
+      const bounded = new Deque<number>([], { maxlen: 0, onEvict: item => evicted.push(item) });
+      bounded.push(1).pushLeft(2);
+
+      expect(bounded.isEmpty).toBe(true);
+      expect(bounded.isFull).toBe(true);
+      expect(evicted).toEqual([1, 2]);
+    });
+
+    test('should no longer be full after popping', () => {
+      const bounded = new Deque<number>([1, 2], { maxlen: 2 });
+      bounded.pop();
+      expect(bounded.isFull).toBe(false);
+    });
+
+    test('should reject invalid maxlen', () => {
+      expect(() => new Deque<number>([], { maxlen: -1 })).toThrow(RangeError);
+      expect(() => new Deque<number>([], { maxlen: 1.5 })).toThrow(RangeError);
+    });
+  });
+
+  describe('rotate', () => {
+    test('should rotate right by default', () => {
+      deque.extend([1, 2, 3, 4, 5]);
+      deque.rotate();
+      expect(deque.toArray()).toEqual([5, 1, 2, 3, 4]);
+    });
+
+    test('should rotate right for positive steps', () => {
+      deque.extend([1, 2, 3, 4, 5]);
+      deque.rotate(2);
+      expect(deque.toArray()).toEqual([4, 5, 1, 2, 3]);
+      deque.rotate(4);
+      expect(deque.toArray()).toEqual([5, 1, 2, 3, 4]);
+    });
+
+    test('should rotate left for negative steps', () => {
+      deque.extend([1, 2, 3, 4, 5]);
+      deque.rotate(-2);
+      expect(deque.toArray()).toEqual([3, 4, 5, 1, 2]);
+      deque.rotate(-4);
+      expect(deque.toArray()).toEqual([2, 3, 4, 5, 1]);
+    });
+
+    test('should handle steps larger than size', () => {
+      deque.extend([1, 2, 3]);
+      deque.rotate(7);
+      expect(deque.toArray()).toEqual([3, 1, 2]);
+      deque.rotate(-9);
+      expect(deque.toArray()).toEqual([3, 1, 2]);
+    });
+
+    test('should handle empty and single element deques', () => {
+      expect(deque.rotate(3).toArray()).toEqual([]);
+      deque.push(1);
+      expect(deque.rotate(-3).toArray()).toEqual([1]);
+    });
+
+    test('should rotate across the buffer wrap-around', () => {
+      for (let i = 0; i < 8; i++) deque.pushLeft(-i);
+      for (let i = 1; i < 8; i++) deque.push(i);
+      const expected = deque.toArray();
+
+      deque.rotate(3);
+      expect(deque.toArray()).toEqual([...expected.slice(-3), ...expected.slice(0, -3)]);
+      deque.rotate(-3);
+      expect(deque.toArray()).toEqual(expected);
+    });
+
+    test('should rotate a completely full buffer', () => {
+      const full = new Deque<number>(16);
+      for (let i = 0; i < 16; i++) full.push(i);
+      const expected = full.toArray();
+
+      full.rotate(5);
+      expect(full.toArray()).toEqual([...expected.slice(-5), ...expected.slice(0, -5)]);
+      full.push(16);
+      expect(full.get(-1)).toBe(16);
+      expect(full.get(0)).toBe(11);
+    });
+
+    test('should reject non-integer steps', () => {
+      deque.extend([1, 2, 3]);
+      expect(() => deque.rotate(1.5)).toThrow(RangeError);
+    });
+
+    test('should return this for chaining', () => {
+      expect(deque.rotate(1)).toBe(deque);
+    });
+  });
+
+  describe('insert', () => {
+    test('should insert in the middle', () => {
+      deque.extend([1, 2, 4, 5]);
+      deque.insert(2, 3);
+      expect(deque.toArray()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('should insert near the front and near the back', () => {
+      deque.extend([1, 2, 3, 4, 5, 6]);
+      deque.insert(1, 10);
+      deque.insert(6, 20);
+      expect(deque.toArray()).toEqual([1, 10, 2, 3, 4, 5, 20, 6]);
+    });
+
+    test('should support negative indices', () => {
+      deque.extend([1, 2, 3]);
+      deque.insert(-1, 9);
+      expect(deque.toArray()).toEqual([1, 2, 9, 3]);
+    });
+
+    test('should clamp out-of-range indices', () => {
+      deque.extend([1, 2, 3]);
+      deque.insert(100, 4);
+      deque.insert(-100, 0);
+      expect(deque.toArray()).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    test('should grow the buffer when needed', () => {
+      for (let i = 0; i < 16; i++) deque.push(i);
+      deque.insert(8, 100);
+      expect(deque.size).toBe(17);
+      expect(deque.get(8)).toBe(100);
+      expect(deque.get(9)).toBe(8);
+      expect(deque.get(-1)).toBe(15);
+    });
+
+    test('should throw when the deque is full', () => {
+      const bounded = new Deque<number>([1, 2], { maxlen: 2 });
+      expect(() => bounded.insert(1, 3)).toThrow(RangeError);
+    });
+
+    test('should reject non-integer indices', () => {
+      expect(() => deque.insert(0.5, 1)).toThrow(RangeError);
+    });
+  });
+
+  describe('removeAt', () => {
+    test('should remove and return the item at index', () => {
+      deque.extend([1, 2, 3, 4, 5, 6]);
+      expect(deque.removeAt(1)).toBe(2);
+      expect(deque.removeAt(3)).toBe(5);
+      expect(deque.toArray()).toEqual([1, 3, 4, 6]);
+    });
+
+    test('should support negative indices', () => {
+      deque.extend([1, 2, 3]);
+      expect(deque.removeAt(-1)).toBe(3);
+      expect(deque.removeAt(-2)).toBe(1);
+      expect(deque.toArray()).toEqual([2]);
+    });
+
+    test('should return undefined for out-of-bounds indices', () => {
+      expect(deque.removeAt(0)).toBeUndefined();
+      deque.extend([1, 2]);
+      expect(deque.removeAt(2)).toBeUndefined();
+      expect(deque.removeAt(-3)).toBeUndefined();
+      expect(deque.removeAt(0.5)).toBeUndefined();
+      expect(deque.size).toBe(2);
+    });
+
+    test('should keep the deque consistent across the wrap-around', () => {
+      for (let i = 1; i <= 5; i++) deque.pushLeft(-i);
+      for (let i = 0; i < 5; i++) deque.push(i);
+      const expected = deque.toArray();
+
+      expect(deque.removeAt(3)).toBe(expected[3]);
+      expect(deque.removeAt(6)).toBe(expected[7]);
+      expected.splice(3, 1);
+      expected.splice(6, 1);
+      expect(deque.toArray()).toEqual(expected);
+
+      deque.pushLeft(100).push(200);
+      expect(deque.get(0)).toBe(100);
+      expect(deque.get(-1)).toBe(200);
+    });
+  });
+
+  describe('remove', () => {
+    test('should remove the first occurrence', () => {
+      deque.extend([1, 2, 3, 2]);
+      expect(deque.remove(2)).toBe(true);
+      expect(deque.toArray()).toEqual([1, 3, 2]);
+    });
+
+    test('should return false when the item is missing', () => {
+      deque.extend([1, 2, 3]);
+      expect(deque.remove(4)).toBe(false);
+      expect(deque.size).toBe(3);
+    });
+
+    test('should remove by identity', () => {
+      const jobs = new Deque<{ id: number }>();
+      const job = { id: 2 };
+      jobs.extend([{ id: 1 }, job, { id: 2 }]);
+
+      expect(jobs.remove({ id: 2 })).toBe(false);
+      expect(jobs.remove(job)).toBe(true);
+      expect(jobs.toArray()).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+  });
+
+  describe('count', () => {
+    test('should count occurrences', () => {
+      deque.extend([1, 2, 1, 3, 1]);
+      expect(deque.count(1)).toBe(3);
+      expect(deque.count(2)).toBe(1);
+      expect(deque.count(4)).toBe(0);
+    });
+  });
+
+  describe('Array-like methods', () => {
+    beforeEach(() => {
+      // Force the contents to wrap around the end of the ring buffer
+      for (let i = 0; i < 10; i++) deque.push(0);
+      for (let i = 0; i < 10; i++) deque.popLeft();
+      deque.extend([1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    test('filter should return a new deque with matching items', () => {
+      const evens = deque.filter(item => item % 2 === 0);
+      expect(evens).toBeInstanceOf(Deque);
+      expect(evens.toArray()).toEqual([2, 4, 6, 8]);
+      expect(deque.size).toBe(8);
+    });
+
+    test('filter should pass the index', () => {
+      expect(deque.filter((_, index) => index < 2).toArray()).toEqual([1, 2]);
+    });
+
+    test('reduce should accumulate from front to back', () => {
+      expect(deque.reduce((acc, item) => acc + item, 0)).toBe(36);
+      expect(deque.reduce((acc, item) => acc + item)).toBe(36);
+      expect(deque.reduce((acc, item) => acc + String(item), '')).toBe('12345678');
+    });
+
+    test('reduceRight should accumulate from back to front', () => {
+      expect(deque.reduceRight((acc, item) => acc + String(item), '')).toBe('87654321');
+      expect(deque.reduceRight((acc, item) => acc - item)).toBe(8 - 7 - 6 - 5 - 4 - 3 - 2 - 1);
+    });
+
+    test('reduce should throw on empty deque without initial value', () => {
+      const empty = new Deque<number>();
+      expect(() => empty.reduce((acc, item) => acc + item)).toThrow(TypeError);
+      expect(() => empty.reduceRight((acc, item) => acc + item)).toThrow(TypeError);
+      expect(empty.reduce((acc, item) => acc + item, 0)).toBe(0);
+    });
+
+    test('forEach should visit every item in order', () => {
+      const visited: [number, number][] = [];
+      deque.forEach((item, index) => visited.push([index, item]));
+      expect(visited).toEqual(Array.from(deque.entries()));
+    });
+
+    test('some and every should test the predicate', () => {
+      expect(deque.some(item => item > 7)).toBe(true);
+      expect(deque.some(item => item > 8)).toBe(false);
+      expect(deque.every(item => item > 0)).toBe(true);
+      expect(deque.every(item => item > 1)).toBe(false);
+      expect(new Deque<number>().every(() => false)).toBe(true);
+    });
+
+    test('find, findIndex and findLast should locate items', () => {
+      expect(deque.find(item => item > 3)).toBe(4);
+      expect(deque.findIndex(item => item > 3)).toBe(3);
+      expect(deque.findLast(item => item < 5)).toBe(4);
+      expect(deque.find(item => item > 8)).toBeUndefined();
+      expect(deque.findIndex(item => item > 8)).toBe(-1);
+      expect(deque.findLast(item => item > 8)).toBeUndefined();
+    });
+
+    test('slice should follow Array.prototype.slice semantics', () => {
+      const expected = deque.toArray();
+      expect(deque.slice().toArray()).toEqual(expected.slice());
+      expect(deque.slice(2).toArray()).toEqual(expected.slice(2));
+      expect(deque.slice(2, 5).toArray()).toEqual(expected.slice(2, 5));
+      expect(deque.slice(-3).toArray()).toEqual(expected.slice(-3));
+      expect(deque.slice(1, -1).toArray()).toEqual(expected.slice(1, -1));
+      expect(deque.slice(5, 2).toArray()).toEqual([]);
+      expect(deque.slice(-100, 100).toArray()).toEqual(expected);
+    });
+
+    test('reverse should reverse in place', () => {
+      expect(deque.reverse()).toBe(deque);
+      expect(deque.toArray()).toEqual([8, 7, 6, 5, 4, 3, 2, 1]);
+      deque.push(0);
+      expect(deque.get(-1)).toBe(0);
+    });
+
+    test('at should support negative indices', () => {
+      expect(deque.at(0)).toBe(1);
+      expect(deque.at(-1)).toBe(8);
+      expect(deque.at(8)).toBeUndefined();
+    });
+
+    test('lastIndexOf should search backwards', () => {
+      deque.push(3);
+      expect(deque.lastIndexOf(3)).toBe(8);
+      expect(deque.lastIndexOf(3, 7)).toBe(2);
+      expect(deque.lastIndexOf(3, -2)).toBe(2);
+      expect(deque.lastIndexOf(3, 1)).toBe(-1);
+      expect(deque.lastIndexOf(42)).toBe(-1);
+    });
+  });
+
+  describe('Fail-fast iterators', () => {
+    test('should throw when the deque is modified during iteration', () => {
+      deque.extend([1, 2, 3, 4]);
+      expect(() => {
+        for (const item of deque) {
+          if (item === 2) deque.popLeft();
+        }
+      }).toThrow(ConcurrentModificationError);
+    });
+
+    test('should detect modifications in every iterator', () => {
+      deque.extend([1, 2, 3]);
+      const iterators = [deque.values(), deque.keys(), deque.entries()];
+      for (const iterator of iterators) {
+        iterator.next();
+        deque.push(4);
+        expect(() => iterator.next()).toThrow(ConcurrentModificationError);
+      }
+    });
+
+    test('should not throw for non-structural updates', () => {
+      deque.extend([1, 2, 3]);
+      const result: number[] = [];
+      for (const [index, item] of deque.entries()) {
+        deque.set(index, item * 10);
+        result.push(item);
+      }
+      expect(result).toEqual([1, 2, 3]);
+      expect(deque.toArray()).toEqual([10, 20, 30]);
+    });
+
+    test('should allow extending a deque with itself', () => {
+      deque.extend([1, 2]);
+      deque.extend(deque);
+      deque.extendLeft(deque);
+      expect(deque.toArray()).toEqual([2, 1, 2, 1, 1, 2, 1, 2]);
+    });
+
+    test('should not throw when failFast is disabled', () => {
+      const unchecked = new Deque<number>([1, 2, 3], { failFast: false });
+      const result: number[] = [];
+      for (const item of unchecked) {
+        result.push(item);
+        if (item === 1) unchecked.push(4);
+      }
+      expect(result).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe('Capacity management', () => {
+    test('should report the buffer capacity', () => {
+      expect(deque.capacity).toBe(16);
+      expect(new Deque<number>(100).capacity).toBe(128);
+    });
+
+    test('should shrink automatically after a drain', () => {
+      for (let i = 0; i < 10000; i++) deque.push(i);
+      const peak = deque.capacity;
+      expect(peak).toBeGreaterThanOrEqual(10000);
+
+      while (deque.size > 10) deque.popLeft();
+      expect(deque.capacity).toBeLessThan(peak / 100);
+      expect(deque.toArray()).toEqual([9990, 9991, 9992, 9993, 9994, 9995, 9996, 9997, 9998, 9999]);
+    });
+
+    test('should release the buffer after a burst is drained to empty', () => {
+      for (let i = 0; i < 100000; i++) deque.push(i);
+      while (!deque.isEmpty) deque.popLeft();
+      expect(deque.capacity).toBeLessThanOrEqual(32);
+
+      for (let i = 0; i < 100000; i++) deque.push(i);
+      expect(deque.drain()).toHaveLength(100000);
+      expect(deque.capacity).toBeLessThanOrEqual(32);
+    });
+
+    test('should not shrink below the initial capacity', () => {
+      const presized = new Deque<number>(1024);
+      for (let i = 0; i < 2000; i++) presized.push(i);
+      while (!presized.isEmpty) presized.pop();
+      expect(presized.capacity).toBe(1024);
+    });
+
+    test('should use hysteresis to avoid thrashing', () => {
+      for (let i = 0; i < 65; i++) deque.push(i);
+      while (deque.size > 32) deque.pop();
+      expect(deque.capacity).toBe(128);
+
+      deque.pop();
+      expect(deque.capacity).toBe(64);
+      // Alternating around the shrink boundary must not reallocate each time
+      for (let i = 0; i < 100; i++) {
+        deque.push(i);
+        expect(deque.capacity).toBe(64);
+        deque.pop();
+        expect(deque.capacity).toBe(64);
+      }
+    });
+
+    test('should release the buffer on clear', () => {
+      for (let i = 0; i < 1000; i++) deque.push(i);
+      deque.clear();
+      expect(deque.capacity).toBe(16);
+    });
+
+    test('trimToSize should shrink to fit', () => {
+      const presized = new Deque<number>(4096);
+      presized.extend([1, 2, 3]);
+      presized.trimToSize();
+      expect(presized.capacity).toBe(16);
+      expect(presized.toArray()).toEqual([1, 2, 3]);
+
+      for (let i = 0; i < 100; i++) deque.pushLeft(i);
+      deque.trimToSize();
+      expect(deque.capacity).toBe(128);
+      expect(deque.get(0)).toBe(99);
+      expect(deque.get(-1)).toBe(0);
+    });
+
+    test('ensureCapacity should pre-size the buffer', () => {
+      deque.extend([1, 2, 3]);
+      deque.ensureCapacity(1000);
+      expect(deque.capacity).toBe(1024);
+      expect(deque.toArray()).toEqual([1, 2, 3]);
+
+      for (let i = 0; i < 1000; i++) deque.push(i);
+      while (!deque.isEmpty) deque.pop();
+      expect(deque.capacity).toBe(1024);
+    });
+
+    test('ensureCapacity should not shrink the buffer', () => {
+      for (let i = 0; i < 100; i++) deque.push(i);
+      deque.ensureCapacity(10);
+      expect(deque.capacity).toBe(128);
+    });
+
+    test('ensureCapacity should reject sizes above the maximum', () => {
+      expect(() => deque.ensureCapacity(2 ** 31)).toThrow(RangeError);
+    });
+  });
+
+  describe('Views and range operations', () => {
+    // Starts the buffer near its end so ranges cross the wrap-around
+    const wrapped = (items: number[]): Deque<number> => {
+      const result = new Deque<number>();
+      for (let i = 0; i < 12; i++) result.push(-1);
+      for (let i = 0; i < 12; i++) result.popLeft();
+      result.extend(items);
+      return result;
+    };
+
+    test('view should expose a window without copying', () => {
+      const source = wrapped([0, 1, 2, 3, 4, 5, 6, 7]);
+      const view = source.view(2, 6);
+      expect(view.size).toBe(4);
+      expect(view.get(0)).toBe(2);
+      expect(view.get(-1)).toBe(5);
+      expect(view.get(4)).toBeUndefined();
+      expect([...view]).toEqual([2, 3, 4, 5]);
+
+      source.set(3, 30);
+      expect(view.toArray()).toEqual([2, 30, 4, 5]);
+      expect(source.view(-3).toArray()).toEqual([5, 6, 7]);
+      expect(source.view(5, 2).isEmpty).toBe(true);
+    });
+
+    test('view should be invalidated by structural changes', () => {
+      deque.extend([1, 2, 3]);
+      const view = deque.view();
+      deque.push(4);
+      expect(() => view.get(0)).toThrow(ConcurrentModificationError);
+      expect(() => view.toArray()).toThrow(ConcurrentModificationError);
+    });
+
+    test('splice should remove and insert items like Array.prototype.splice', () => {
+      const cases: [number, number | undefined, number[]][] = [
+        [2, 3, []],
+        [1, 0, [10, 11, 12]],
+        [5, 1, [20, 21]],
+        [-2, 1, [30]],
+        [0, 7, [40]],
+        [3, undefined, []],
+        [6, 2, [50, 51, 52, 53, 54, 55, 56, 57, 58, 59]],
+      ];
+      for (const [start, deleteCount, items] of cases) {
+        const expected = [0, 1, 2, 3, 4, 5, 6, 7];
+        const source = wrapped(expected);
+        const removed =
+          deleteCount === undefined ? source.splice(start) : source.splice(start, deleteCount, ...items);
+        const expectedRemoved =
+          deleteCount === undefined ? expected.splice(start) : expected.splice(start, deleteCount, ...items);
+        expect(removed).toEqual(expectedRemoved);
+        expect(source.toArray()).toEqual(expected);
+        expect(source.size).toBe(expected.length);
+      }
+    });
+
+    test('splice should respect maxlen', () => {
+      const bounded = new Deque<number>({ maxlen: 3 });
+      bounded.extend([1, 2, 3]);
+      expect(() => bounded.splice(1, 0, 9)).toThrow(RangeError);
+      expect(bounded.splice(1, 1, 9)).toEqual([2]);
+      expect(bounded.toArray()).toEqual([1, 9, 3]);
+    });
+
+    test('removeRange should remove items between start and end', () => {
+      const source = wrapped([0, 1, 2, 3, 4, 5, 6, 7]);
+      expect(source.removeRange(1, 3)).toBe(2);
+      expect(source.toArray()).toEqual([0, 3, 4, 5, 6, 7]);
+      expect(source.removeRange(-2)).toBe(2);
+      expect(source.toArray()).toEqual([0, 3, 4, 5]);
+      expect(source.removeRange(3, 1)).toBe(0);
+      expect(source.removeRange()).toBe(4);
+      expect(source.isEmpty).toBe(true);
+    });
+
+    test('drain should pop up to n items from the front', () => {
+      const source = wrapped([0, 1, 2, 3, 4, 5, 6, 7]);
+      expect(source.drain(5)).toEqual([0, 1, 2, 3, 4]);
+      expect(source.toArray()).toEqual([5, 6, 7]);
+      expect(source.drain(10)).toEqual([5, 6, 7]);
+      expect(source.drain()).toEqual([]);
+      expect(() => source.drain(-1)).toThrow(RangeError);
+    });
+
+    test('drain should shrink the buffer', () => {
+      for (let i = 0; i < 1000; i++) deque.push(i);
+      deque.drain(995);
+      expect(deque.capacity).toBe(16);
+      expect(deque.toArray()).toEqual([995, 996, 997, 998, 999]);
+    });
+
+    test('copyTo should copy across the wrap-around into an existing array', () => {
+      const source = wrapped([0, 1, 2, 3, 4, 5, 6, 7]);
+      const target = [-1, -1];
+      expect(source.copyTo(target, 1)).toBe(target);
+      expect(target).toEqual([-1, 0, 1, 2, 3, 4, 5, 6, 7]);
+      expect(() => source.copyTo(target, -1)).toThrow(RangeError);
+    });
+  });
+
   describe('Complex scenarios', () => {
     test('should handle alternating operations', () => {
       // Simulate a queue-like behavior
@@ -203,4 +203,48 @@ describe('Heap Performance Tests', () => {
       expect(heap.size).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe('Arity comparison', () => {
+    // Comparison counts rather than timings, so the check does not depend on JIT warm-up or GC.
+    const workload = (arity: number, values: number[]): { comparisons: number; sorted: number[] } => {
+      let comparisons = 0;
+      const dary = new Heap<number>({
+        arity,
+        comparator: (a, b) => {
+          comparisons++;
+          return a - b;
+        },
+      });
+      for (const value of values) {
+        dary.push(value);
+      }
+      for (let i = 0; i < values.length; i++) {
+        dary.pushPop(values[i] / 2);
+      }
+      const sorted = [...dary.drain()];
+      return { comparisons, sorted };
+    };
+
+    test('should produce the same order for every arity', () => {
+      let seed = 5;
+      const values = Array.from({ length: 20000 }, () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return (seed / 2147483648) * 1000;
+      });
+      const comparisons: Record<number, number> = {};
+      let expected: number[] | undefined;
+
+      for (const arity of [2, 4, 8]) {
+        const result = workload(arity, values);
+        comparisons[arity] = result.comparisons;
+        expected ??= result.sorted;
+        expect(result.sorted).toEqual(expected);
+      }
+
+      // Wider heaps do more comparisons per level but have fewer levels;
+      // they should stay in the same ballpark as the binary heap.
+      expect(comparisons[4]).toBeLessThan(comparisons[2] * 1.25);
+      expect(comparisons[8]).toBeLessThan(comparisons[2] * 1.75);
+    });
+  });
 });
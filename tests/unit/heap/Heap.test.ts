@@ -1,4 +1,4 @@
-import { Counter, Heap, heapq } from '../../../src/index';
+import { ConcurrentModificationError, Counter, Heap, HeapInvariantError, heapq } from '../../../src/index';
 describe('Heap', () => {
   let heap: Heap<number>;
 
@@ -346,6 +346,367 @@ describe('Heap', () => {
     });
   });
 
+  describe('Fail-fast iterators', () => {
+    test('should throw when the heap is modified during iteration', () => {
+      heap.push(3).push(1).push(2);
+      expect(() => {
+        for (const item of heap) {
+          heap.push(item + 10);
+        }
+      }).toThrow(ConcurrentModificationError);
+    });
+
+    test('should detect modifications in every iterator', () => {
+      heap.push(3).push(1).push(2);
+      const iterators = [heap.values(), heap.keys(), heap.entries()];
+      for (const iterator of iterators) {
+        iterator.next();
+        heap.pop();
+        expect(() => iterator.next()).toThrow(ConcurrentModificationError);
+      }
+    });
+
+    test('should not throw when failFast is disabled', () => {
+      const unchecked = new Heap<number>([1, 2, 3], { failFast: false });
+      expect(() => {
+        for (const item of unchecked) {
+          if (item === 1) unchecked.clear();
+        }
+      }).not.toThrow();
+    });
+
+    test('should accept options with a comparator', () => {
+      const maxHeap = new Heap<number>([1, 3, 2], { comparator: (a, b) => b - a });
+      expect(maxHeap.peek()).toBe(3);
+      expect(new Heap<number>({ comparator: (a, b) => b - a }).push(1).push(5).peek()).toBe(5);
+    });
+  });
+
+  describe('Construction options', () => {
+    interface Task {
+      priority: number;
+      name: string;
+    }
+    const tasks: Task[] = [
+      { priority: 2, name: 'b' },
+      { priority: 5, name: 'e' },
+      { priority: 1, name: 'a' },
+    ];
+    const drain = <T>(source: Heap<T>): T[] => {
+      const result: T[] = [];
+      while (!source.isEmpty) result.push(source.pop() as T);
+      return result;
+    };
+
+    test('maxHeap should put the largest item at the root', () => {
+      expect(drain(Heap.maxHeap([3, 1, 4, 1, 5]))).toEqual([5, 4, 3, 1, 1]);
+      expect(drain(Heap.maxHeap(tasks, { key: task => task.priority })).map(task => task.name)).toEqual([
+        'e',
+        'b',
+        'a',
+      ]);
+      const empty = Heap.maxHeap<number>();
+      empty.push(1).push(3).push(2);
+      expect(empty.peek()).toBe(3);
+    });
+
+    test('maxHeap should reverse a custom comparator', () => {
+      const byLength = Heap.maxHeap<string>((a, b) => a.length - b.length);
+      byLength.push('aa').push('a').push('aaa');
+      expect(byLength.pop()).toBe('aaa');
+    });
+
+    test('minHeap should ignore a reverse option', () => {
+      expect(drain(Heap.minHeap([3, 1, 2], { reverse: true }))).toEqual([1, 2, 3]);
+    });
+
+    test('should accept key and reverse in the constructor and from', () => {
+      const byName = new Heap<Task>(tasks, { key: task => task.name, reverse: true });
+      expect(byName.peek()?.name).toBe('e');
+      expect(Heap.from(tasks, { key: task => task.priority }).peek()?.name).toBe('a');
+      expect(heapq.from(tasks, { key: task => task.name }).peek()?.name).toBe('a');
+    });
+
+    test('should prefer comparator over key', () => {
+      const heap = new Heap<Task>(tasks, { comparator: (a, b) => b.priority - a.priority, key: task => task.name });
+      expect(heap.peek()?.name).toBe('e');
+    });
+
+    test('should keep the order when cloned', () => {
+      const heap = Heap.maxHeap([1, 2, 3]).clone();
+      expect(heap.pop()).toBe(3);
+    });
+
+    test('keys may be strings, bigints, dates and tuples', () => {
+      expect(drain(new Heap(['pear', 'apple', 'fig'], { key: s => s }))).toEqual(['apple', 'fig', 'pear']);
+      expect(drain(new Heap([3n, 10n, 2n], { key: n => n }))).toEqual([2n, 3n, 10n]);
+
+      const dates = [new Date(2024, 5, 1), new Date(2023, 0, 1), new Date(2024, 0, 1)];
+      expect(drain(new Heap(dates, { key: d => d }))).toEqual([dates[1], dates[2], dates[0]]);
+
+      const pairs: [number, string][] = [
+        [2, 'b'],
+        [10, 'a'],
+        [2, 'a'],
+      ];
+      expect(drain(new Heap(pairs, { key: p => p }))).toEqual([
+        [2, 'a'],
+        [2, 'b'],
+        [10, 'a'],
+      ]);
+    });
+  });
+
+  describe('Stable heap', () => {
+    interface Job {
+      priority: number;
+      id: number;
+    }
+
+    test('should pop equal items in insertion order', () => {
+      const jobs = new Heap<Job>({ key: job => job.priority, stable: true });
+      [3, 1, 3, 1, 2, 1].forEach((priority, id) => jobs.push({ priority, id }));
+      const order: number[] = [];
+      while (!jobs.isEmpty) order.push(jobs.pop()!.id);
+      expect(order).toEqual([1, 3, 5, 4, 0, 2]);
+    });
+
+    test('should keep FIFO order among ties under heavy interleaving', () => {
+      let seed = 7;
+      const random = (): number => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+
+      const jobs = new Heap<Job>({ key: job => job.priority, stable: true });
+      const lastPopped = new Map<number, number>();
+      let id = 0;
+      for (let step = 0; step < 5000; step++) {
+        if (random() < 0.55 || jobs.isEmpty) {
+          jobs.push({ priority: Math.floor(random() * 4), id: id++ });
+        } else {
+          const job = jobs.pop()!;
+          expect(job.id).toBeGreaterThan(lastPopped.get(job.priority) ?? -1);
+          lastPopped.set(job.priority, job.id);
+        }
+      }
+
+      const remaining: Job[] = [];
+      while (!jobs.isEmpty) remaining.push(jobs.pop()!);
+      const expected = [...remaining].sort((a, b) => a.priority - b.priority || a.id - b.id);
+      expect(remaining).toEqual(expected);
+    });
+
+    test('should keep FIFO order through replace, pushPop, heapify and clone', () => {
+      const heap = new Heap<Job>(
+        [
+          { priority: 1, id: 0 },
+          { priority: 1, id: 1 },
+        ],
+        { key: job => job.priority, stable: true }
+      );
+      heap.heapify([{ priority: 1, id: 2 }]);
+      expect(heap.pushPop({ priority: 1, id: 3 })?.id).toBe(0);
+      expect(heap.replace({ priority: 1, id: 4 })?.id).toBe(1);
+
+      const copy = heap.clone();
+      copy.push({ priority: 1, id: 5 });
+      expect(copy.sort().map(job => job.id)).toEqual([2, 3, 4, 5]);
+      expect(heap.toArray()).toHaveLength(3);
+      expect([...heap].map(job => job.id).sort()).toEqual([2, 3, 4]);
+      expect(heap.peek()?.id).toBe(2);
+    });
+
+    test('should support max-heaps', () => {
+      const heap = Heap.maxHeap<Job>({ key: job => job.priority, stable: true });
+      [1, 2, 2, 1].forEach((priority, id) => heap.push({ priority, id }));
+      expect([heap.pop()!.id, heap.pop()!.id, heap.pop()!.id, heap.pop()!.id]).toEqual([1, 2, 0, 3]);
+    });
+  });
+
+  describe('Sorted iteration and draining', () => {
+    test('sortedValues should yield items in order without modifying the heap', () => {
+      const values = [9, 4, 7, 1, 8, 2, 6, 3, 5, 0, 4];
+      heap.heapify(values);
+      const before = heap.toArray();
+
+      expect([...heap.sortedValues()]).toEqual([...values].sort((a, b) => a - b));
+      expect(heap.toArray()).toEqual(before);
+      expect(heap.size).toBe(values.length);
+    });
+
+    test('sortedValues should be lazy', () => {
+      for (let i = 1000; i > 0; i--) heap.push(i);
+      const compare = jest.fn((a: number, b: number) => a - b);
+      const counted = new Heap<number>(heap.toArray(), compare);
+      compare.mockClear();
+
+      const first3: number[] = [];
+      for (const item of counted.sortedValues()) {
+        first3.push(item);
+        if (first3.length === 3) break;
+      }
+      expect(first3).toEqual([1, 2, 3]);
+      expect(compare.mock.calls.length).toBeLessThan(30);
+    });
+
+    test('sortedValues should respect custom order and stability', () => {
+      const maxHeap = Heap.maxHeap(['b', 'd', 'a', 'c']);
+      expect([...maxHeap.sortedValues()]).toEqual(['d', 'c', 'b', 'a']);
+
+      const stable = new Heap<[number, string]>({ key: pair => pair[0], stable: true });
+      stable.push([1, 'x']).push([0, 'y']).push([1, 'z']).push([0, 'w']);
+      expect([...stable.sortedValues()].map(pair => pair[1])).toEqual(['y', 'w', 'x', 'z']);
+      expect([...new Heap<number>().sortedValues()]).toEqual([]);
+    });
+
+    test('sortedValues should fail fast on modification', () => {
+      heap.push(1).push(2);
+      expect(() => {
+        for (const item of heap.sortedValues()) heap.push(item);
+      }).toThrow(ConcurrentModificationError);
+    });
+
+    test('drain should pop every item in order', () => {
+      heap.heapify([5, 3, 8, 1]);
+      const drained = heap.drain();
+      expect(drained.next().value).toBe(1);
+      expect(heap.size).toBe(3);
+      expect([...drained]).toEqual([3, 5, 8]);
+      expect(heap.isEmpty).toBe(true);
+    });
+
+    test('drain should include items pushed while draining', () => {
+      heap.push(1).push(5);
+      const result: number[] = [];
+      for (const item of heap.drain()) {
+        result.push(item);
+        if (item === 1) heap.push(3);
+      }
+      expect(result).toEqual([1, 3, 5]);
+    });
+  });
+
+  describe('Arity', () => {
+    test('should keep the d-ary heap property', () => {
+      const values = [9, 4, 7, 1, 8, 2, 6, 3, 5, 0, 4, 12, 11, 10];
+      for (const arity of [2, 3, 4, 8]) {
+        const dary = new Heap<number>(values, { arity });
+        expect(dary.arity).toBe(arity);
+
+        const data = dary.toArray();
+        for (let i = 1; i < data.length; i++) {
+          expect(data[Math.floor((i - 1) / arity)]).toBeLessThanOrEqual(data[i]);
+        }
+        expect([...dary.sortedValues()]).toEqual([...values].sort((a, b) => a - b));
+        expect(dary.pushPop(5)).toBe(0);
+        expect(dary.replace(13)).toBe(1);
+        expect([...dary.drain()]).toEqual([2, 3, 4, 4, 5, 5, 6, 7, 8, 9, 10, 11, 12, 13]);
+      }
+    });
+
+    test('should default to a binary heap and keep the arity when cloning', () => {
+      expect(heap.arity).toBe(2);
+      expect(new Heap<number>({ arity: 4 }).clone().arity).toBe(4);
+      expect(Heap.maxHeap<number>([1, 3, 2], { arity: 3 }).arity).toBe(3);
+    });
+
+    test('should reject invalid arities', () => {
+      expect(() => new Heap<number>({ arity: 1 })).toThrow(RangeError);
+      expect(() => new Heap<number>({ arity: 2.5 })).toThrow(RangeError);
+      expect(() => heapq.heapify([3, 1], { arity: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('Validation and debug mode', () => {
+    // Rock-paper-scissors: antisymmetric but not transitive.
+    const beats: Record<string, string> = { r: 's', s: 'p', p: 'r' };
+    const rps = (a: string, b: string): number => (a === b ? 0 : beats[a] === b ? -1 : 1);
+
+    test('isValid should detect items mutated after they were pushed', () => {
+      const tasks = new Heap<{ priority: number }>({ key: task => task.priority });
+      [5, 3, 8, 1].forEach(priority => tasks.push({ priority }));
+      expect(tasks.isValid()).toBe(true);
+
+      (tasks.peek(3) as { priority: number }).priority = 0;
+      expect(tasks.isValid()).toBe(false);
+      tasks.heapify();
+      expect(tasks.isValid()).toBe(true);
+      expect(tasks.pop()).toEqual({ priority: 0 });
+    });
+
+    test('should stay silent with a consistent comparator', () => {
+      const heap = new Heap<number>([5, 3, 8, 1], { debug: true, stable: true, arity: 3 });
+      heap.push(2);
+      heap.pushPop(0);
+      heap.replace(9);
+      expect([...heap.drain()]).toEqual([2, 3, 5, 8, 9]);
+      expect(heap.clone().isValid()).toBe(true);
+    });
+
+    test('should report a comparator that is not antisymmetric', () => {
+      const heap = new Heap<number>({ comparator: () => -1, debug: true });
+      heap.push(1);
+      expect(() => heap.push(2)).toThrow(HeapInvariantError);
+      expect(() => heap.push(3)).toThrow('Inconsistent comparator: compare(3, 1) is -1 but compare(1, 3) is -1');
+    });
+
+    test('should report a comparator that is not transitive', () => {
+      const heap = new Heap<string>({ comparator: rps, debug: true });
+      heap.push('r').push('s').push('s');
+      expect(() => heap.push('p')).toThrow(
+        'Non-transitive comparator: "p" at index 3 sorts before "r" at index 0, ' +
+          'although neither sorts before "s" at index 1 in between'
+      );
+      expect(heap.isValid()).toBe(true);
+    });
+
+    test('should be enabled by the COLLECTIONS_DEBUG environment variable', () => {
+      // The variable is read when the module loads, so each case loads a fresh copy.
+      const loadHeap = (flag: string): typeof Heap => {
+        const previous = process.env.COLLECTIONS_DEBUG;
+        process.env.COLLECTIONS_DEBUG = flag;
+        try {
+          let loaded: typeof Heap = Heap;
+          jest.isolateModules(() => {
+            loaded = require('../../../src/index').Heap;
+          });
+          return loaded;
+        } finally {
+          if (previous === undefined) delete process.env.COLLECTIONS_DEBUG;
+          else process.env.COLLECTIONS_DEBUG = previous;
+        }
+      };
+      const inconsistent = (a: number, b: number): number => (a < b ? -1 : 1);
+
+      const DebugHeap = loadHeap('1');
+      const heap = new DebugHeap<number>(inconsistent);
+      heap.push(1);
+      expect(() => heap.push(1)).toThrow('Inconsistent comparator');
+
+      const QuietHeap = loadHeap('0');
+      expect(() => new QuietHeap<number>(inconsistent).push(1).push(1)).not.toThrow();
+    });
+
+    test('clone should not check the comparator twice', () => {
+      let calls = 0;
+      const counting = (a: number, b: number): number => {
+        calls++;
+        return a - b;
+      };
+      const heap = new Heap<number>([5, 3, 8], { comparator: counting, debug: true });
+      const copy = heap.clone();
+
+      calls = 0;
+      heap.push(1);
+      const original = calls;
+      calls = 0;
+      copy.push(1);
+      expect(calls).toBe(original);
+      expect(() => copy.push(NaN)).toThrow(HeapInvariantError);
+    });
+  });
+
   describe('Complex scenarios', () => {
     test('should handle priority queue simulation', () => {
       interface Task {
@@ -608,6 +969,12 @@ describe('Heap Static Methods', () => {
       expect(result).toEqual([65, 44, 44]);      
     });
 
+    test('should accept non-numeric keys', () => {
+      const words = ['pear', 'Apple', 'fig', 'banana'];
+      expect(heapq.nsmallest(2, words, w => w.toLowerCase())).toEqual(['Apple', 'banana']);
+      expect(heapq.nlargest(2, words, w => [w.length, w])).toEqual(['banana', 'Apple']);
+    });
+
     test('should handle Counter objects', () => {
       const counter = new Counter<string>(['apple', 'banana', 'apple', 'orange', 'banana', 'banana']);
       const mostCommon = heapq.nlargest(2, counter, (a) => a[1]);
@@ -615,6 +982,200 @@ describe('Heap Static Methods', () => {
     });
   });
 
+  describe('merge', () => {
+    test('should merge sorted iterables lazily', () => {
+      const merged = heapq.merge([1, 4, 7], new Set([2, 5, 8]), [3, 6, 9, 10]);
+      expect(merged.next().value).toBe(1);
+      expect([...merged]).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    test('should only pull the items it yields', () => {
+      let pulled = 0;
+      function* counting(items: number[]): Generator<number> {
+        for (const item of items) {
+          pulled++;
+          yield item;
+        }
+      }
+      const merged = heapq.merge(counting([1, 3, 5]), counting([2, 4, 6]));
+      merged.next();
+      merged.next();
+      expect(pulled).toBe(3);
+    });
+
+    test('should keep equal items in input order', () => {
+      const a = [{ k: 1, src: 'a' }, { k: 2, src: 'a' }];
+      const b = [{ k: 1, src: 'b' }, { k: 2, src: 'b' }];
+      const merged = [...heapq.merge(a, b, { key: item => item.k })];
+      expect(merged.map(item => item.src)).toEqual(['a', 'b', 'a', 'b']);
+    });
+
+    test('should merge descending inputs with reverse', () => {
+      expect([...heapq.merge([9, 5, 1], [8, 4], [7], { reverse: true })]).toEqual([9, 8, 7, 5, 4, 1]);
+    });
+
+    test('should handle empty inputs', () => {
+      expect([...heapq.merge()]).toEqual([]);
+      expect([...heapq.merge([], [1], [])]).toEqual([1]);
+      expect([...heapq.merge(['b', 'd'], 'ace')]).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    test('should close unfinished sources when stopped early', () => {
+      let closed = 0;
+      function* source(items: number[]): Generator<number> {
+        try {
+          yield* items;
+        } finally {
+          closed++;
+        }
+      }
+      for (const item of heapq.merge(source([1, 2]), source([3, 4]))) {
+        if (item === 1) break;
+      }
+      expect(closed).toBe(2);
+    });
+  });
+
+  describe('mergeAsync', () => {
+    async function* pages(items: number[], size: number): AsyncGenerator<number> {
+      for (let i = 0; i < items.length; i += size) {
+        const page = await Promise.resolve(items.slice(i, i + size));
+        yield* page;
+      }
+    }
+
+    const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const result: T[] = [];
+      for await (const item of iterable) result.push(item);
+      return result;
+    };
+
+    test('should merge async and sync iterables', async () => {
+      const merged = heapq.mergeAsync(pages([1, 5, 9, 13], 2), [2, 6], pages([3, 4, 10], 1));
+      expect(await collect(merged)).toEqual([1, 2, 3, 4, 5, 6, 9, 10, 13]);
+    });
+
+    test('should support key and reverse', async () => {
+      const merged = heapq.mergeAsync(pages([30, 10], 1), pages([20], 1), { key: (n: number) => n, reverse: true });
+      expect(await collect(merged)).toEqual([30, 20, 10]);
+    });
+
+    test('should keep equal items in input order', async () => {
+      const a = pages([1, 1], 1);
+      const b = [1.0];
+      const tagged = heapq.mergeAsync(
+        (async function* () {
+          for await (const n of a) yield { n, src: 'a' };
+        })(),
+        b.map(n => ({ n, src: 'b' })),
+        { key: (item: { n: number }) => item.n }
+      );
+      expect((await collect(tagged)).map(item => item.src)).toEqual(['a', 'a', 'b']);
+    });
+  });
+
+  describe('stable helpers', () => {
+    test('should pop equal items in FIFO order', () => {
+      const queue: [string, number][] = [];
+      const options = { key: (job: string) => job.length, stable: true as const };
+      ['bb', 'a', 'cc', 'd', 'ee'].forEach(job => heapq.heapPush(queue, job, options));
+
+      expect(queue[0][0]).toBe('a');
+      const order: string[] = [];
+      while (queue.length > 0) order.push(heapq.heapPop(queue, options)!);
+      expect(order).toEqual(['a', 'd', 'bb', 'cc', 'ee']);
+    });
+
+    test('should number the entries of each array separately', () => {
+      const options = { key: () => 0, stable: true as const };
+      const first: [string, number][] = [];
+      const second: [string, number][] = [];
+      heapq.heapPush(first, 'a', options);
+      heapq.heapPush(first, 'b', options);
+      heapq.heapPush(second, 'c', options);
+      expect(first.map(([, sequence]) => sequence)).toEqual([0, 1]);
+      expect(second).toEqual([['c', 0]]);
+
+      // A copy continues after the entries it already holds.
+      const copy = [...first];
+      heapq.heapPush(copy, 'd', options);
+      expect(heapq.heapPop(copy, options)).toBe('a');
+      expect(heapq.heapPop(copy, options)).toBe('b');
+      expect(heapq.heapPop(copy, options)).toBe('d');
+    });
+
+    test('should keep FIFO order with heapPushPop and heapReplace', () => {
+      const queue: [{ id: string }, number][] = [];
+      const options = { key: () => 0, stable: true as const };
+      heapq.heapPush(queue, { id: 'a' }, options);
+      heapq.heapPush(queue, { id: 'b' }, options);
+      expect(heapq.heapPushPop(queue, { id: 'c' }, options)?.id).toBe('a');
+      expect(heapq.heapReplace(queue, { id: 'd' }, options)?.id).toBe('b');
+
+      heapq.heapify(queue, options);
+      expect(heapq.heapPop(queue, options)?.id).toBe('c');
+      expect(heapq.heapPop(queue, options)?.id).toBe('d');
+      expect(heapq.heapPop(queue, options)).toBeUndefined();
+    });
+  });
+
+  describe('arity option', () => {
+    test('should maintain a 4-ary heap array', () => {
+      const options = { arity: 4 };
+      const arr = [8, 3, 9, 1, 7, 2, 6, 5, 4, 0];
+      heapq.heapify(arr, options);
+      heapq.heapPush(arr, -1, options);
+      expect(arr[0]).toBe(-1);
+      expect(heapq.heapPushPop(arr, 10, options)).toBe(-1);
+      expect(heapq.heapReplace(arr, 11, options)).toBe(0);
+
+      const popped: number[] = [];
+      while (arr.length > 0) popped.push(heapq.heapPop(arr, options)!);
+      expect(popped).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    });
+
+    test('should combine with the stable option', () => {
+      const queue: [string, number][] = [];
+      const options = { key: (job: string) => job.length, stable: true as const, arity: 3 };
+      ['bb', 'a', 'cc', 'd', 'ee', 'f'].forEach(job => heapq.heapPush(queue, job, options));
+
+      const order: string[] = [];
+      while (queue.length > 0) order.push(heapq.heapPop(queue, options)!);
+      expect(order).toEqual(['a', 'd', 'f', 'bb', 'cc', 'ee']);
+    });
+  });
+
+  describe('isHeap', () => {
+    test('should check the heap property of any array', () => {
+      expect(heapq.isHeap([])).toBe(true);
+      expect(heapq.isHeap([1, 3, 2, 7, 4])).toBe(true);
+      expect(heapq.isHeap([1, 3, 2, 0])).toBe(false);
+      expect(heapq.isHeap([9, 4, 7, 1], { reverse: true })).toBe(true);
+      expect(heapq.isHeap([1, 5, 3, 2, 6], { arity: 4 })).toBe(true);
+      expect(heapq.isHeap([1, 5, 3, 2, 6])).toBe(false);
+    });
+
+    test('should check stable entries', () => {
+      const queue: [string, number][] = [];
+      const options = { key: (job: string) => job.length, stable: true as const };
+      ['bb', 'a', 'cc', 'd'].forEach(job => heapq.heapPush(queue, job, options));
+      expect(heapq.isHeap(queue, options)).toBe(true);
+
+      queue[0][0] = 'long job';
+      expect(heapq.isHeap(queue, options)).toBe(false);
+    });
+
+    test('should re-validate the array in debug mode', () => {
+      const heap = [1, 3, 2];
+      heapq.heapPush(heap, 0, { debug: true });
+      expect(heap[0]).toBe(0);
+
+      heap[0] = 10;
+      expect(() => heapq.heapPush(heap, 5, { debug: true })).toThrow(HeapInvariantError);
+      expect(() => heapq.heapify(heap, { comparator: () => 1, debug: true })).toThrow('Inconsistent comparator');
+    });
+  });
+
   describe('should handle pop and push operations', () =>{
     test('should pop elements in correct order', () => {
       const heap = [5, 3, 8, 1, 4];
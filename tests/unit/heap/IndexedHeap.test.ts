@@ -0,0 +1,260 @@
+import { ConcurrentModificationError, HeapInvariantError, IndexedHeap } from '../../../src/index';
+
+describe('IndexedHeap', () => {
+  let heap: IndexedHeap<number>;
+
+  beforeEach(() => {
+    heap = new IndexedHeap<number>();
+  });
+
+  const drain = <T>(source: IndexedHeap<T>): T[] => {
+    const result: T[] = [];
+    while (!source.isEmpty) result.push(source.pop() as T);
+    return result;
+  };
+
+  describe('Basic operations', () => {
+    test('should pop items in order', () => {
+      [5, 3, 8, 1, 9, 2].forEach(item => heap.push(item));
+      expect(heap.size).toBe(6);
+      expect(heap.peek()).toBe(1);
+      expect(drain(heap)).toEqual([1, 2, 3, 5, 8, 9]);
+      expect(heap.pop()).toBeUndefined();
+    });
+
+    test('should return handles referencing the pushed items', () => {
+      const handle = heap.push(4);
+      expect(handle.item).toBe(4);
+      expect(heap.contains(handle)).toBe(true);
+    });
+
+    test('should accept a custom comparator', () => {
+      const maxHeap = new IndexedHeap<number>((a, b) => b - a);
+      [1, 5, 3].forEach(item => maxHeap.push(item));
+      expect(drain(maxHeap)).toEqual([5, 3, 1]);
+    });
+  });
+
+  describe('update', () => {
+    test('should move items up or down as needed', () => {
+      const handles = [10, 20, 30, 40, 50].map(item => heap.push(item));
+      heap.update(handles[4], 5);
+      expect(heap.peek()).toBe(5);
+      heap.update(handles[0], 45);
+      expect(drain(heap)).toEqual([5, 20, 30, 40, 45]);
+    });
+
+    test('should keep handles valid while other items move', () => {
+      const handles = [7, 3, 9, 1, 5].map(item => heap.push(item));
+      heap.pop();
+      heap.update(handles[2], 0);
+      expect(handles[2].item).toBe(0);
+      expect(heap.pop()).toBe(0);
+      expect(drain(heap)).toEqual([3, 5, 7]);
+    });
+
+    test('should reject handles that are no longer in the heap', () => {
+      const handle = heap.push(1);
+      heap.pop();
+      expect(heap.contains(handle)).toBe(false);
+      expect(() => heap.update(handle, 2)).toThrow('Handle does not belong to this heap');
+      expect(() => new IndexedHeap<number>().update(heap.push(3), 4)).toThrow();
+    });
+  });
+
+  describe('decreaseKey', () => {
+    test('should move the item towards the root', () => {
+      [4, 6, 8].forEach(item => heap.push(item));
+      const handle = heap.push(10);
+      heap.decreaseKey(handle, 2);
+      expect(heap.peek()).toBe(2);
+    });
+
+    test('should reject an item that sorts later', () => {
+      const handle = heap.push(5);
+      expect(() => heap.decreaseKey(handle, 6)).toThrow(RangeError);
+      expect(handle.item).toBe(5);
+    });
+  });
+
+  describe('remove and has', () => {
+    test('should remove arbitrary items', () => {
+      const handles = [8, 4, 6, 2, 9, 1, 7].map(item => heap.push(item));
+      expect(heap.remove(handles[1])).toBe(true);
+      expect(heap.remove(handles[1])).toBe(false);
+      expect(heap.remove(handles[5])).toBe(true);
+      expect(heap.has(4)).toBe(false);
+      expect(heap.has(6)).toBe(true);
+      expect(drain(heap)).toEqual([2, 6, 7, 8, 9]);
+    });
+
+    test('should track duplicates in has', () => {
+      const first = heap.push(3);
+      heap.push(3);
+      heap.remove(first);
+      expect(heap.has(3)).toBe(true);
+      heap.pop();
+      expect(heap.has(3)).toBe(false);
+    });
+
+    test('should follow items replaced by update', () => {
+      const handle = heap.push(1);
+      heap.update(handle, 2);
+      expect(heap.has(1)).toBe(false);
+      expect(heap.has(2)).toBe(true);
+    });
+
+    test('clear should invalidate every handle', () => {
+      const handle = heap.push(1);
+      heap.clear();
+      expect(heap.isEmpty).toBe(true);
+      expect(heap.has(1)).toBe(false);
+      expect(heap.contains(handle)).toBe(false);
+    });
+  });
+
+  describe('Randomized operations', () => {
+    test('should stay consistent with a sorted array', () => {
+      let seed = 42;
+      const random = (): number => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+
+      const live = new Map<number, ReturnType<IndexedHeap<number>['push']>>();
+      let id = 0;
+      for (let step = 0; step < 2000; step++) {
+        const op = random();
+        const keys = [...live.keys()];
+        if (op < 0.5 || keys.length === 0) {
+          live.set(id++, heap.push(Math.floor(random() * 1000)));
+        } else if (op < 0.7) {
+          const key = keys[Math.floor(random() * keys.length)];
+          heap.update(live.get(key)!, Math.floor(random() * 1000));
+        } else if (op < 0.85) {
+          const key = keys[Math.floor(random() * keys.length)];
+          heap.remove(live.get(key)!);
+          live.delete(key);
+        } else {
+          const min = Math.min(...[...live.values()].map(handle => handle.item));
+          expect(heap.pop()).toBe(min);
+          for (const [key, handle] of live) {
+            if (!heap.contains(handle)) live.delete(key);
+          }
+        }
+        expect(heap.size).toBe(live.size);
+      }
+
+      const expected = [...live.values()].map(handle => handle.item).sort((a, b) => a - b);
+      expect(drain(heap)).toEqual(expected);
+    });
+  });
+
+  describe('Stable option', () => {
+    test('should pop equal items in insertion order', () => {
+      const stable = new IndexedHeap<{ priority: number; id: number }>({ key: job => job.priority, stable: true });
+      const handles = [2, 1, 2, 1, 2].map((priority, id) => stable.push({ priority, id }));
+      stable.update(handles[0], { priority: 1, id: 0 });
+
+      const order: number[] = [];
+      while (!stable.isEmpty) order.push(stable.pop()!.id);
+      expect(order).toEqual([0, 1, 3, 2, 4]);
+    });
+  });
+
+  describe('Use cases', () => {
+    test('should run Dijkstra without stale entries', () => {
+      const graph: Record<string, [string, number][]> = {
+        a: [
+          ['b', 7],
+          ['c', 9],
+          ['f', 14],
+        ],
+        b: [
+          ['c', 10],
+          ['d', 15],
+        ],
+        c: [
+          ['d', 11],
+          ['f', 2],
+        ],
+        d: [['e', 6]],
+        e: [],
+        f: [['e', 9]],
+      };
+
+      type Entry = { node: string; dist: number };
+      const queue = new IndexedHeap<Entry>((x, y) => x.dist - y.dist);
+      const handles = new Map(
+        Object.keys(graph).map(node => [node, queue.push({ node, dist: node === 'a' ? 0 : Infinity })])
+      );
+      const dist: Record<string, number> = {};
+
+      while (!queue.isEmpty) {
+        const { node, dist: d } = queue.pop() as Entry;
+        dist[node] = d;
+        for (const [next, weight] of graph[node]) {
+          const handle = handles.get(next)!;
+          if (queue.contains(handle) && d + weight < handle.item.dist) {
+            queue.decreaseKey(handle, { node: next, dist: d + weight });
+          }
+        }
+      }
+
+      expect(dist).toEqual({ a: 0, b: 7, c: 9, d: 20, e: 20, f: 11 });
+    });
+  });
+
+  describe('Validation and debug mode', () => {
+    test('isValid should detect items mutated after they were pushed', () => {
+      const tasks = new IndexedHeap<{ priority: number }>({ key: task => task.priority });
+      const handles = [5, 3, 8, 1].map(priority => tasks.push({ priority }));
+      expect(tasks.isValid()).toBe(true);
+
+      (handles[2].item as { priority: number }).priority = 0;
+      expect(tasks.isValid()).toBe(false);
+      tasks.update(handles[2], handles[2].item);
+      expect(tasks.isValid()).toBe(true);
+      expect(tasks.pop()).toEqual({ priority: 0 });
+    });
+
+    test('should re-validate after every mutation in debug mode', () => {
+      const tasks = new IndexedHeap<{ priority: number }>({ key: task => task.priority, debug: true, stable: true });
+      const handles = [5, 3, 8, 1].map(priority => tasks.push({ priority }));
+      tasks.update(handles[0], { priority: 2 });
+      tasks.decreaseKey(handles[2], { priority: 0 });
+      tasks.remove(handles[1]);
+      expect(tasks.pop()).toEqual({ priority: 0 });
+
+      (handles[3].item as { priority: number }).priority = 9;
+      expect(() => tasks.push({ priority: 10 })).toThrow(
+        'Heap property violated: {"priority":2} at index 1 sorts before its parent {"priority":9} at index 0'
+      );
+    });
+
+    test('should report a comparator that is not antisymmetric in debug mode', () => {
+      const heap = new IndexedHeap<number>({ comparator: () => -1, debug: true });
+      heap.push(1);
+      expect(() => heap.push(2)).toThrow(HeapInvariantError);
+    });
+  });
+
+  describe('Fail-fast iterators', () => {
+    test('should iterate items in heap order', () => {
+      [3, 1, 2].forEach(item => heap.push(item));
+      expect([...heap].sort()).toEqual([1, 2, 3]);
+      expect([...heap.keys()]).toEqual([0, 1, 2]);
+      expect(heap.toArray()).toEqual([...heap.values()]);
+    });
+
+    test('should throw when the heap is modified during iteration', () => {
+      const handle = heap.push(1);
+      heap.push(2);
+      expect(() => {
+        for (const item of heap) {
+          if (item === 1) heap.update(handle, 3);
+        }
+      }).toThrow(ConcurrentModificationError);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { ConcurrentModificationError, HeapInvariantError, MinMaxHeap } from '../../../src/index';
+
+describe('MinMaxHeap', () => {
+  let heap: MinMaxHeap<number>;
+
+  beforeEach(() => {
+    heap = new MinMaxHeap<number>();
+  });
+
+  describe('Basic operations', () => {
+    test('should peek and pop from both ends', () => {
+      [5, 3, 8, 1, 9, 2, 7].forEach(item => heap.push(item));
+      expect(heap.size).toBe(7);
+      expect(heap.peekMin()).toBe(1);
+      expect(heap.peekMax()).toBe(9);
+      expect(heap.popMin()).toBe(1);
+      expect(heap.popMax()).toBe(9);
+      expect(heap.popMax()).toBe(8);
+      expect(heap.popMin()).toBe(2);
+      expect(heap.toArray().sort()).toEqual([3, 5, 7]);
+    });
+
+    test('should handle empty and single-item heaps', () => {
+      expect(heap.peekMin()).toBeUndefined();
+      expect(heap.peekMax()).toBeUndefined();
+      expect(heap.popMin()).toBeUndefined();
+      expect(heap.popMax()).toBeUndefined();
+
+      heap.push(4);
+      expect(heap.peekMin()).toBe(4);
+      expect(heap.peekMax()).toBe(4);
+      expect(heap.popMax()).toBe(4);
+      expect(heap.isEmpty).toBe(true);
+    });
+
+    test('should build from an iterable', () => {
+      const built = MinMaxHeap.from([6, 2, 9, 4, 1, 8, 3]);
+      const order: number[] = [];
+      while (!built.isEmpty) order.push(built.popMin() as number);
+      expect(order).toEqual([1, 2, 3, 4, 6, 8, 9]);
+    });
+
+    test('should accept a comparator, key and reverse', () => {
+      const byLength = new MinMaxHeap<string>(['ccc', 'a', 'bb'], { key: word => word.length });
+      expect(byLength.peekMin()).toBe('a');
+      expect(byLength.peekMax()).toBe('ccc');
+
+      const reversed = new MinMaxHeap<number>([1, 2, 3], (a, b) => b - a);
+      expect(reversed.popMin()).toBe(3);
+      expect(reversed.popMax()).toBe(1);
+    });
+  });
+
+  describe('maxSize', () => {
+    test('should drop the largest item on overflow', () => {
+      const evicted: number[] = [];
+      const bounded = new MinMaxHeap<number>({ maxSize: 3, onEvict: item => evicted.push(item) });
+      [5, 1, 4, 2, 6, 3].forEach(item => bounded.push(item));
+
+      expect(bounded.isFull).toBe(true);
+      expect(bounded.maxSize).toBe(3);
+      expect(bounded.toArray().sort()).toEqual([1, 2, 3]);
+      expect(evicted).toEqual([5, 6, 4]);
+    });
+
+    test('should trim the initial items', () => {
+      const evicted: number[] = [];
+      const bounded = new MinMaxHeap<number>([4, 8, 1, 6], { maxSize: 2, onEvict: item => evicted.push(item) });
+      expect(bounded.toArray().sort()).toEqual([1, 4]);
+      expect(evicted).toEqual([8, 6]);
+    });
+
+    test('should reject invalid sizes', () => {
+      expect(() => new MinMaxHeap<number>({ maxSize: -1 })).toThrow(RangeError);
+      expect(() => new MinMaxHeap<number>({ maxSize: 1.5 })).toThrow(RangeError);
+    });
+  });
+
+  describe('Randomized operations', () => {
+    test('should stay consistent with a sorted array', () => {
+      let seed = 7;
+      const random = (): number => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+
+      const expected: number[] = [];
+      for (let step = 0; step < 3000; step++) {
+        const op = random();
+        if (op < 0.5 || expected.length === 0) {
+          const item = Math.floor(random() * 100);
+          heap.push(item);
+          expected.push(item);
+          expected.sort((a, b) => a - b);
+        } else if (op < 0.75) {
+          expect(heap.popMin()).toBe(expected.shift());
+        } else {
+          expect(heap.popMax()).toBe(expected.pop());
+        }
+        expect(heap.size).toBe(expected.length);
+        expect(heap.peekMin()).toBe(expected[0]);
+        expect(heap.peekMax()).toBe(expected[expected.length - 1]);
+      }
+    });
+  });
+
+  describe('Validation and debug mode', () => {
+    test('isValid should detect items mutated after they were pushed', () => {
+      const scores = new MinMaxHeap<{ points: number }>({ key: score => score.points });
+      [5, 3, 8, 1, 9, 2, 7].forEach(points => scores.push({ points }));
+      expect(scores.isValid()).toBe(true);
+
+      (scores.peekMax() as { points: number }).points = 0;
+      expect(scores.isValid()).toBe(false);
+    });
+
+    test('isValid should hold after every operation', () => {
+      const bounded = new MinMaxHeap<number>([9, 4, 7, 1, 8, 2, 6, 3, 5], { maxSize: 6 });
+      expect(bounded.isValid()).toBe(true);
+      bounded.push(0).push(10);
+      bounded.popMin();
+      bounded.popMax();
+      expect(bounded.isValid()).toBe(true);
+    });
+
+    test('should re-validate after every mutation in debug mode', () => {
+      const scores = new MinMaxHeap<{ points: number }>(
+        [5, 3, 8, 1, 9, 2, 7].map(points => ({ points })),
+        { key: score => score.points, debug: true, maxSize: 6 }
+      );
+      scores.push({ points: 4 });
+      expect(scores.popMin()).toEqual({ points: 1 });
+      expect(scores.popMax()).toEqual({ points: 7 });
+
+      (scores.peekMin() as { points: number }).points = 6;
+      expect(() => scores.push({ points: 10 })).toThrow(HeapInvariantError);
+      expect(() => scores.popMax()).toThrow(/Min-max heap property violated: .* sorts before its min-level ancestor \{"points":6\} at index 0/);
+    });
+
+    test('should report a comparator that is not antisymmetric in debug mode', () => {
+      const bad = new MinMaxHeap<number>({ comparator: () => 1, debug: true });
+      bad.push(1);
+      expect(() => bad.push(2)).toThrow('Inconsistent comparator');
+    });
+  });
+
+  describe('Fail-fast iterators', () => {
+    test('should iterate items in heap order', () => {
+      [3, 1, 2].forEach(item => heap.push(item));
+      expect([...heap].sort()).toEqual([1, 2, 3]);
+      expect([...heap.keys()]).toEqual([0, 1, 2]);
+      expect(heap.toArray()).toEqual([...heap.values()]);
+    });
+
+    test('should throw when the heap is modified during iteration', () => {
+      [1, 2, 3].forEach(item => heap.push(item));
+      expect(() => {
+        for (const item of heap) {
+          if (item === 1) heap.popMax();
+        }
+      }).toThrow(ConcurrentModificationError);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { ConcurrentModificationError, HeapInvariantError, PairingHeap } from '../../../src/index';
+
+describe('PairingHeap', () => {
+  let heap: PairingHeap<number>;
+
+  beforeEach(() => {
+    heap = new PairingHeap<number>();
+  });
+
+  describe('Basic operations', () => {
+    test('should pop items in order', () => {
+      [5, 3, 8, 1, 9, 2].forEach(item => heap.push(item));
+      expect(heap.size).toBe(6);
+      expect(heap.peek()).toBe(1);
+      expect([...heap.drain()]).toEqual([1, 2, 3, 5, 8, 9]);
+      expect(heap.pop()).toBeUndefined();
+    });
+
+    test('should support the IHeap helpers', () => {
+      heap = PairingHeap.from([4, 7, 1, 6]);
+      expect(heap.sort()).toEqual([1, 4, 6, 7]);
+      expect([...heap.sortedValues()]).toEqual([1, 4, 6, 7]);
+      expect(heap.nsmallest(2)).toEqual([1, 4]);
+      expect(heap.nlargest(2)).toEqual([7, 6]);
+      expect(heap.pushPop(0)).toBe(0);
+      expect(heap.replace(5)).toBe(1);
+      expect(heap.heapify([2, 3]).size).toBe(6);
+      expect(heap.toArray().sort()).toEqual([2, 3, 4, 5, 6, 7]);
+    });
+
+    test('should accept key and reverse options', () => {
+      const maxHeap = new PairingHeap<string>(['bb', 'a', 'ccc'], { key: word => word.length, reverse: true });
+      expect([...maxHeap.drain()]).toEqual(['ccc', 'bb', 'a']);
+    });
+
+    test('should pop equal items in insertion order when stable', () => {
+      const stable = new PairingHeap<{ priority: number; id: number }>({ key: job => job.priority, stable: true });
+      [2, 1, 2, 1, 2].forEach((priority, id) => stable.push({ priority, id }));
+      expect([...stable.drain()].map(job => job.id)).toEqual([1, 3, 0, 2, 4]);
+    });
+  });
+
+  describe('meld', () => {
+    test('should move every item into the receiving heap', () => {
+      const other = PairingHeap.from([6, 0, 4]);
+      heap.push(5).push(1);
+      heap.meld(other);
+
+      expect(heap.size).toBe(5);
+      expect(other.isEmpty).toBe(true);
+      expect([...heap.drain()]).toEqual([0, 1, 4, 5, 6]);
+    });
+
+    test('should keep handles of the melded heap valid', () => {
+      const first = new PairingHeap<number>();
+      const second = new PairingHeap<number>();
+      const third = new PairingHeap<number>();
+      const handle = third.insert(10);
+      second.meld(third);
+      first.meld(second);
+
+      expect(first.contains(handle)).toBe(true);
+      expect(second.contains(handle)).toBe(false);
+      expect(third.contains(handle)).toBe(false);
+      first.decreaseKey(handle, -1);
+      expect(first.pop()).toBe(-1);
+    });
+
+    test('should ignore melding with itself and reject other heaps', () => {
+      heap.push(1);
+      heap.meld(heap);
+      expect(heap.size).toBe(1);
+      expect(() => heap.meld({} as PairingHeap<number>)).toThrow(TypeError);
+    });
+  });
+
+  describe('decreaseKey and remove', () => {
+    test('should move an item towards the root', () => {
+      const handles = [10, 20, 30, 40].map(item => heap.insert(item));
+      heap.pop();
+      heap.decreaseKey(handles[3], 5);
+      expect(handles[3].item).toBe(5);
+      expect([...heap.drain()]).toEqual([5, 20, 30]);
+    });
+
+    test('should reject an item that sorts later or a stale handle', () => {
+      const handle = heap.insert(5);
+      expect(() => heap.decreaseKey(handle, 6)).toThrow(RangeError);
+      heap.pop();
+      expect(() => heap.decreaseKey(handle, 1)).toThrow('Handle does not belong to this heap');
+    });
+
+    test('should remove arbitrary items', () => {
+      const handles = [8, 4, 6, 2, 9, 1, 7].map(item => heap.insert(item));
+      heap.pop();
+      expect(heap.remove(handles[1])).toBe(true);
+      expect(heap.remove(handles[1])).toBe(false);
+      expect(heap.remove(handles[3])).toBe(true);
+      expect([...heap.drain()]).toEqual([6, 7, 8, 9]);
+    });
+
+    test('clear should invalidate every handle', () => {
+      const handle = heap.insert(1);
+      heap.clear();
+      expect(heap.isEmpty).toBe(true);
+      expect(heap.contains(handle)).toBe(false);
+    });
+  });
+
+  describe('Randomized operations', () => {
+    test('should stay consistent with a sorted array', () => {
+      let seed = 11;
+      const random = (): number => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+
+      const live = new Map<number, ReturnType<PairingHeap<number>['insert']>>();
+      let id = 0;
+      for (let step = 0; step < 2000; step++) {
+        const op = random();
+        const keys = [...live.keys()];
+        if (op < 0.45 || keys.length === 0) {
+          live.set(id++, heap.insert(Math.floor(random() * 1000)));
+        } else if (op < 0.6) {
+          const other = new PairingHeap<number>();
+          live.set(id++, other.insert(Math.floor(random() * 1000)));
+          live.set(id++, other.insert(Math.floor(random() * 1000)));
+          heap.meld(other);
+        } else if (op < 0.75) {
+          const handle = live.get(keys[Math.floor(random() * keys.length)])!;
+          heap.decreaseKey(handle, handle.item - Math.floor(random() * 100));
+        } else if (op < 0.85) {
+          const key = keys[Math.floor(random() * keys.length)];
+          heap.remove(live.get(key)!);
+          live.delete(key);
+        } else {
+          const min = Math.min(...[...live.values()].map(handle => handle.item));
+          expect(heap.pop()).toBe(min);
+          for (const [key, handle] of live) {
+            if (!heap.contains(handle)) live.delete(key);
+          }
+        }
+        expect(heap.size).toBe(live.size);
+      }
+
+      const expected = [...live.values()].map(handle => handle.item).sort((a, b) => a - b);
+      expect([...heap.drain()]).toEqual(expected);
+    });
+  });
+
+  describe('Validation and debug mode', () => {
+    test('isValid should detect items mutated after they were pushed', () => {
+      const tasks = new PairingHeap<{ priority: number }>({ key: task => task.priority });
+      const handles = [5, 3, 8, 1].map(priority => tasks.insert({ priority }));
+      tasks.pop();
+      expect(tasks.isValid()).toBe(true);
+
+      (handles[2].item as { priority: number }).priority = 0;
+      expect(tasks.isValid()).toBe(false);
+    });
+
+    test('should re-validate after every mutation in debug mode', () => {
+      const tasks = new PairingHeap<{ priority: number }>({ key: task => task.priority, debug: true });
+      const handles = [5, 3, 8, 1].map(priority => tasks.insert({ priority }));
+      tasks.decreaseKey(handles[2], { priority: 2 });
+      tasks.remove(handles[0]);
+      tasks.meld(new PairingHeap<{ priority: number }>([{ priority: 4 }], { key: task => task.priority }));
+      expect(tasks.pop()).toEqual({ priority: 1 });
+
+      (handles[2].item as { priority: number }).priority = 9;
+      expect(() => tasks.push({ priority: 6 })).toThrow(HeapInvariantError);
+      expect(() => tasks.push({ priority: 7 })).toThrow('sorts before its parent {"priority":9}');
+    });
+
+    test('should report a comparator that is not antisymmetric in debug mode', () => {
+      const heap = new PairingHeap<number>({ comparator: () => -1, debug: true });
+      heap.push(1);
+      expect(() => heap.push(2)).toThrow('Inconsistent comparator');
+    });
+  });
+
+  describe('Fail-fast iterators', () => {
+    test('should iterate every item', () => {
+      [3, 1, 2].forEach(item => heap.push(item));
+      expect([...heap].sort()).toEqual([1, 2, 3]);
+      expect([...heap.keys()]).toEqual([0, 1, 2]);
+      expect([...heap.entries()].map(([index]) => index)).toEqual([0, 1, 2]);
+      expect(heap.peek(2)).toBe([...heap][2]);
+    });
+
+    test('should throw when the heap is modified during iteration', () => {
+      [1, 2, 3].forEach(item => heap.push(item));
+      expect(() => {
+        for (const item of heap) {
+          if (item === 1) heap.push(4);
+        }
+      }).toThrow(ConcurrentModificationError);
+    });
+  });
+});
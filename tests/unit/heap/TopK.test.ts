@@ -0,0 +1,117 @@
+import { Heap, TopK, heapq } from '../../../src/index';
+
+describe('TopK', () => {
+  describe('Initialization', () => {
+    test('should start empty', () => {
+      const top = new TopK<number>(3);
+      expect(top.k).toBe(3);
+      expect(top.size).toBe(0);
+      expect(top.isEmpty).toBe(true);
+      expect(top.isFull).toBe(false);
+      expect(top.peek()).toBeUndefined();
+      expect(top.toArray()).toEqual([]);
+    });
+
+    test('should reject an invalid k', () => {
+      expect(() => new TopK(-1)).toThrow(RangeError);
+      expect(() => new TopK(1.5)).toThrow(RangeError);
+      expect(() => new TopK(NaN)).toThrow(RangeError);
+    });
+
+    test('from should keep the top k items', () => {
+      const top = TopK.from([5, 1, 9, 3, 7, 2], 3);
+      expect(top.toArray()).toEqual([9, 7, 5]);
+      expect(top.isFull).toBe(true);
+      expect(top.peek()).toBe(5);
+    });
+  });
+
+  describe('add', () => {
+    test('should keep the k largest items of a stream', () => {
+      const top = new TopK<number>(3);
+      [4, 8, 1, 9, 2, 8, 7].forEach(value => top.add(value));
+      expect(top.size).toBe(3);
+      expect(top.toArray()).toEqual([9, 8, 8]);
+      expect([...top]).toEqual([9, 8, 8]);
+      expect(top.toString()).toBe('TopK(3) [9, 8, 8]');
+    });
+
+    test('should keep the k smallest items with reverse', () => {
+      const bottom = new TopK<number>(2, { reverse: true }).add(4).add(8).add(1).add(9);
+      expect(bottom.toArray()).toEqual([1, 4]);
+      expect(bottom.peek()).toBe(4);
+    });
+
+    test('should order by key and keep the first of equal items', () => {
+      const top = new TopK<{ page: string; views: number }>(2, { key: page => page.views });
+      top.add({ page: 'a', views: 10 });
+      top.add({ page: 'b', views: 30 });
+      top.add({ page: 'c', views: 10 });
+      top.add({ page: 'd', views: 20 });
+      expect(top.toArray().map(entry => entry.page)).toEqual(['b', 'd']);
+
+      const ties = new TopK<{ page: string; views: number }>(1, { key: page => page.views });
+      ties.add({ page: 'first', views: 5 }).add({ page: 'second', views: 5 });
+      expect(ties.peek()?.page).toBe('first');
+    });
+
+    test('should keep nothing when k is 0', () => {
+      const none = new TopK<number>(0).add(1).addAll([2, 3]);
+      expect(none.isEmpty).toBe(true);
+      expect(none.isFull).toBe(true);
+    });
+  });
+
+  describe('addAll and merge', () => {
+    test('should match heapq.nlargest', () => {
+      let seed = 11;
+      const random = (): number => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+      };
+      const values = Array.from({ length: 500 }, () => Math.floor(random() * 1000));
+
+      for (const k of [1, 5, 50, 600]) {
+        const expected = heapq.nlargest(k, values);
+        expect(TopK.from(values, k).toArray()).toEqual(expected);
+
+        const incremental = new TopK<number>(k);
+        values.forEach(value => incremental.add(value));
+        expect(incremental.toArray()).toEqual(expected);
+      }
+    });
+
+    test('should fill up and then keep accepting items', () => {
+      const top = new TopK<number>(4).add(3);
+      top.addAll([1, 2]).addAll([6, 5, 0, 4]);
+      expect(top.toArray()).toEqual([6, 5, 4, 3]);
+    });
+
+    test('should merge accumulators built over shards', () => {
+      const shards = [
+        [15, 3, 42, 8],
+        [23, 4, 16],
+        [1, 99, 7, 50, 2],
+      ];
+      const [first, ...rest] = shards.map(shard => TopK.from(shard, 3));
+      rest.forEach(shard => first.merge(shard));
+
+      expect(first.toArray()).toEqual([99, 50, 42]);
+      expect(rest[1].toArray()).toEqual([99, 50, 7]);
+      expect(first.merge(first).toArray()).toEqual([99, 50, 42]);
+    });
+
+    test('merge should reject other collections', () => {
+      const top = new TopK<number>(2);
+      expect(() => top.merge(new Heap<number>() as unknown as TopK<number>)).toThrow(TypeError);
+    });
+  });
+
+  test('clear should remove every item', () => {
+    const top = TopK.from([1, 2, 3], 2);
+    top.clear();
+    expect(top.isEmpty).toBe(true);
+    top.add(7);
+    expect(top.toArray()).toEqual([7]);
+  });
+});
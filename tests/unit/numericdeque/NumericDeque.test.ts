@@ -0,0 +1,145 @@
+import { ConcurrentModificationError, NumericDeque } from '../../../src/index';
+
+describe('NumericDeque', () => {
+  let deque: NumericDeque;
+
+  beforeEach(() => {
+    deque = new NumericDeque();
+  });
+
+  describe('Initialization', () => {
+    test('should create empty deque backed by Float64Array', () => {
+      expect(deque.size).toBe(0);
+      expect(deque.isEmpty).toBe(true);
+      expect(deque.capacity).toBe(16);
+      expect(deque.toTypedArray()).toBeInstanceOf(Float64Array);
+    });
+
+    test('should use the selected typed array', () => {
+      const ints = new NumericDeque({ arrayType: Int32Array });
+      ints.push(1.7).push(-2.2);
+      expect(ints.toTypedArray()).toBeInstanceOf(Int32Array);
+      expect(ints.toArray()).toEqual([1, -2]);
+    });
+
+    test('should create from arrays, typed arrays and iterables', () => {
+      expect(NumericDeque.from([1, 2, 3]).toArray()).toEqual([1, 2, 3]);
+      expect(NumericDeque.from(new Float32Array([0.5, 0.25])).toArray()).toEqual([0.5, 0.25]);
+      expect(NumericDeque.from(new Set([4, 5])).toArray()).toEqual([4, 5]);
+      expect(NumericDeque.from({ length: 2, 0: 7, 1: 8 }).toArray()).toEqual([7, 8]);
+    });
+
+    test('should reject invalid maxlen', () => {
+      expect(() => new NumericDeque({ maxlen: -1 })).toThrow(RangeError);
+    });
+  });
+
+  describe('Basic operations', () => {
+    test('should push and pop at both ends', () => {
+      deque.push(2).push(3).pushLeft(1);
+      expect(deque.toArray()).toEqual([1, 2, 3]);
+      expect(deque.popLeft()).toBe(1);
+      expect(deque.pop()).toBe(3);
+      expect(deque.pop()).toBe(2);
+      expect(deque.pop()).toBeUndefined();
+      expect(deque.popLeft()).toBeUndefined();
+    });
+
+    test('should get and set by index', () => {
+      deque.extend([1, 2, 3]);
+      expect(deque.get()).toBe(1);
+      expect(deque.get(-1)).toBe(3);
+      expect(deque.get(3)).toBeUndefined();
+      deque.set(-1, 30);
+      expect(deque.toArray()).toEqual([1, 2, 30]);
+      expect(() => deque.set(5, 1)).toThrow(RangeError);
+    });
+
+    test('should grow across the wrap-around', () => {
+      for (let i = 0; i < 10; i++) deque.pushLeft(-i);
+      for (let i = 1; i < 100; i++) deque.push(i);
+      expect(deque.size).toBe(109);
+      expect(deque.get(0)).toBe(-9);
+      expect(deque.get(-1)).toBe(99);
+      expect(Array.from(deque)).toEqual(deque.toArray());
+    });
+
+    test('should clear and reuse the buffer', () => {
+      deque.extend([1, 2, 3]);
+      const capacity = deque.capacity;
+      deque.clear();
+      expect(deque.isEmpty).toBe(true);
+      expect(deque.capacity).toBe(capacity);
+      deque.push(4);
+      expect(deque.toArray()).toEqual([4]);
+    });
+  });
+
+  describe('Bulk extend', () => {
+    test('should copy typed arrays across the wrap-around', () => {
+      for (let i = 0; i < 12; i++) deque.push(0);
+      for (let i = 0; i < 12; i++) deque.popLeft();
+      deque.extend(new Float64Array([1, 2, 3, 4, 5, 6]));
+      expect(deque.toArray()).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(deque.capacity).toBe(16);
+    });
+
+    test('should grow enough for large typed arrays', () => {
+      const source = Float64Array.from({ length: 1000 }, (_, i) => i);
+      deque.push(-1).extend(source);
+      expect(deque.size).toBe(1001);
+      expect(deque.get(0)).toBe(-1);
+      expect(deque.get(-1)).toBe(999);
+    });
+
+    test('should convert values from other typed arrays', () => {
+      const bytes = new NumericDeque({ arrayType: Uint8Array });
+      bytes.extend(new Float64Array([1.5, 256, 3]));
+      expect(bytes.toArray()).toEqual([1, 0, 3]);
+    });
+
+    test('extendLeft should add values to the front', () => {
+      deque.push(0).extendLeft([1, 2]);
+      expect(deque.toArray()).toEqual([2, 1, 0]);
+    });
+  });
+
+  describe('maxlen', () => {
+    test('should drop values from the opposite end', () => {
+      const bounded = new NumericDeque({ maxlen: 3 });
+      bounded.extend([1, 2, 3, 4]);
+      expect(bounded.toArray()).toEqual([2, 3, 4]);
+      expect(bounded.isFull).toBe(true);
+      bounded.pushLeft(0);
+      expect(bounded.toArray()).toEqual([0, 2, 3]);
+    });
+
+    test('should keep the last values of a bulk extend', () => {
+      const bounded = new NumericDeque({ maxlen: 4 });
+      bounded.extend(new Float64Array([1, 2, 3]));
+      bounded.extend(new Float64Array([4, 5]));
+      expect(bounded.toArray()).toEqual([2, 3, 4, 5]);
+      bounded.extend(new Float64Array([6, 7, 8, 9, 10, 11]));
+      expect(bounded.toArray()).toEqual([8, 9, 10, 11]);
+    });
+  });
+
+  describe('toTypedArray', () => {
+    test('should return an independent copy in order', () => {
+      deque.extend([3, 4]).pushLeft(2).pushLeft(1);
+      const copy = deque.toTypedArray();
+      expect(Array.from(copy)).toEqual([1, 2, 3, 4]);
+      copy[0] = 100;
+      expect(deque.get(0)).toBe(1);
+    });
+  });
+
+  describe('Iterator', () => {
+    test('should be fail-fast', () => {
+      deque.extend([1, 2, 3]);
+      expect(() => {
+        for (const value of deque) deque.push(value);
+      }).toThrow(ConcurrentModificationError);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { OrderedDict } from '../../../src/index';
+import { ConcurrentModificationError, OrderedDict } from '../../../src/index';
 
 describe('OrderedDict', () => {
    let dict: OrderedDict<string, number>;
@@ -226,4 +226,52 @@ describe('OrderedDict', () => {
          expect(result).toEqual(['a:1', 'b:2']);
       });
    });
+
+   describe('Fail-fast iterators', () => {
+      test('should throw when an item is added during iteration', () => {
+         dict.setItem('a', 1);
+         dict.setItem('b', 2);
+         expect(() => {
+            for (const [key] of dict) {
+               dict.setItem(`${key}${key}`, 0);
+            }
+         }).toThrow(ConcurrentModificationError);
+      });
+
+      test('should detect modifications in every iterator', () => {
+         dict.update([
+            ['a', 1],
+            ['b', 2],
+            ['c', 3],
+         ]);
+         const iterators = [dict.keys(), dict.values(), dict.entries(), dict[Symbol.iterator]()];
+         for (const iterator of iterators) {
+            iterator.next();
+            dict.moveToEnd(dict.keys().next().value as string);
+            expect(() => iterator.next()).toThrow(ConcurrentModificationError);
+         }
+      });
+
+      test('should allow updating values during iteration', () => {
+         dict.setItem('a', 1);
+         dict.setItem('b', 2);
+         for (const [key, value] of dict) {
+            dict.setItem(key, value * 10);
+         }
+         expect(dict.toArray()).toEqual([
+            ['a', 10],
+            ['b', 20],
+         ]);
+      });
+
+      test('should not throw when failFast is disabled', () => {
+         const unchecked = new OrderedDict<string, number>([['a', 1]], { failFast: false });
+         const keys: string[] = [];
+         for (const key of unchecked.keys()) {
+            keys.push(key);
+            if (key === 'a') unchecked.setItem('b', 2);
+         }
+         expect(keys).toEqual(['a', 'b']);
+      });
+   });
 });
@@ -0,0 +1,211 @@
+import { PriorityScheduler, TaskCancelledError } from '../../../src/index';
+
+describe('PriorityScheduler', () => {
+  const delay = <T>(ms: number, value: T): Promise<T> => new Promise(resolve => setTimeout(() => resolve(value), ms));
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('Initialization', () => {
+    test('should create an idle scheduler', async () => {
+      const scheduler = new PriorityScheduler();
+      expect(scheduler.size).toBe(0);
+      expect(scheduler.isEmpty).toBe(true);
+      expect(scheduler.pending).toBe(0);
+      expect(scheduler.concurrency).toBe(1);
+      expect(scheduler.isPaused).toBe(false);
+      await expect(scheduler.onIdle()).resolves.toBeUndefined();
+    });
+
+    test('should reject invalid concurrency', () => {
+      expect(() => new PriorityScheduler({ concurrency: 0 })).toThrow(RangeError);
+      expect(() => new PriorityScheduler({ concurrency: 1.5 })).toThrow(RangeError);
+      expect(new PriorityScheduler({ concurrency: Infinity }).concurrency).toBe(Infinity);
+    });
+  });
+
+  describe('Scheduling', () => {
+    test('should run higher priorities first with FIFO ties', async () => {
+      const scheduler = new PriorityScheduler({ autoStart: false });
+      const order: string[] = [];
+      const run = (name: string, priority: number): void => {
+        scheduler.schedule(() => order.push(name), { priority });
+      };
+      run('low', 0);
+      run('high-1', 5);
+      run('mid', 1);
+      run('high-2', 5);
+
+      scheduler.resume();
+      await scheduler.onIdle();
+      expect(order).toEqual(['high-1', 'high-2', 'mid', 'low']);
+    });
+
+    test('should respect the concurrency limit', async () => {
+      const scheduler = new PriorityScheduler({ concurrency: 2 });
+      const tasks = [300, 100, 200].map(ms => scheduler.schedule(() => delay(ms, ms)));
+
+      expect(scheduler.pending).toBe(2);
+      expect(scheduler.size).toBe(1);
+      expect(tasks.map(task => task.status)).toEqual(['running', 'running', 'queued']);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(tasks[1].status).toBe('settled');
+      expect(tasks[2].status).toBe('running');
+      expect(scheduler.pending).toBe(2);
+
+      await jest.advanceTimersByTimeAsync(200);
+      await expect(Promise.all(tasks.map(task => task.promise))).resolves.toEqual([300, 100, 200]);
+      expect(scheduler.pending).toBe(0);
+    });
+
+    test('should reject the task promise when a task fails', async () => {
+      const scheduler = new PriorityScheduler();
+      const failing = scheduler.schedule(() => {
+        throw new Error('boom');
+      });
+      const next = scheduler.schedule(() => 'ok');
+
+      await expect(failing.promise).rejects.toThrow('boom');
+      await expect(next.promise).resolves.toBe('ok');
+    });
+
+    test('should reject a NaN priority', () => {
+      const scheduler = new PriorityScheduler();
+      expect(() => scheduler.schedule(() => 1, { priority: NaN })).toThrow(RangeError);
+    });
+  });
+
+  describe('cancel and setPriority', () => {
+    test('should cancel queued tasks only', async () => {
+      const scheduler = new PriorityScheduler();
+      const running = scheduler.schedule(() => delay(10, 'a'));
+      const queued = scheduler.schedule(() => 'b');
+
+      expect(scheduler.cancel(queued)).toBe(true);
+      expect(scheduler.cancel(queued)).toBe(false);
+      expect(scheduler.cancel(running)).toBe(false);
+      expect(queued.status).toBe('cancelled');
+      await expect(queued.promise).rejects.toBeInstanceOf(TaskCancelledError);
+
+      await jest.advanceTimersByTimeAsync(10);
+      await expect(running.promise).resolves.toBe('a');
+    });
+
+    test('should re-prioritize queued tasks', async () => {
+      const scheduler = new PriorityScheduler({ autoStart: false });
+      const order: string[] = [];
+      const a = scheduler.schedule(() => order.push('a'), { priority: 1 });
+      scheduler.schedule(() => order.push('b'), { priority: 2 });
+      const c = scheduler.schedule(() => order.push('c'), { priority: 3 });
+
+      expect(scheduler.setPriority(a, 5)).toBe(true);
+      expect(scheduler.setPriority(c, 0)).toBe(true);
+      expect(a.priority).toBe(5);
+
+      scheduler.resume();
+      await scheduler.onIdle();
+      expect(order).toEqual(['a', 'b', 'c']);
+      expect(scheduler.setPriority(a, 1)).toBe(false);
+    });
+
+    test('should ignore tasks from another scheduler', () => {
+      const other = new PriorityScheduler({ autoStart: false });
+      const task = other.schedule(() => 1);
+      const scheduler = new PriorityScheduler();
+      expect(scheduler.cancel(task)).toBe(false);
+      expect(scheduler.setPriority(task, 2)).toBe(false);
+      expect(other.size).toBe(1);
+    });
+
+    test('clear should cancel every queued task', async () => {
+      const scheduler = new PriorityScheduler({ autoStart: false });
+      const tasks = [1, 2, 3].map(value => scheduler.schedule(() => value));
+      scheduler.clear();
+
+      expect(scheduler.isEmpty).toBe(true);
+      const results = await Promise.allSettled(tasks.map(task => task.promise));
+      expect(results.every(result => result.status === 'rejected')).toBe(true);
+    });
+  });
+
+  describe('fire-and-forget tasks', () => {
+    beforeEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('clear and cancel should not cause unhandled rejections', async () => {
+      const unhandled: unknown[] = [];
+      const onUnhandled = (reason: unknown): void => {
+        unhandled.push(reason);
+      };
+      process.on('unhandledRejection', onUnhandled);
+      try {
+        const scheduler = new PriorityScheduler({ autoStart: false });
+        scheduler.schedule(() => 1);
+        const task = scheduler.schedule(() => 2);
+        scheduler.cancel(task);
+        scheduler.clear();
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(unhandled).toEqual([]);
+        expect(task.status).toBe('cancelled');
+      } finally {
+        process.off('unhandledRejection', onUnhandled);
+      }
+    });
+  });
+
+  describe('pause and resume', () => {
+    test('should stop starting tasks while paused', async () => {
+      const scheduler = new PriorityScheduler({ concurrency: 2 });
+      const first = scheduler.schedule(() => delay(50, 1));
+      scheduler.pause();
+      const second = scheduler.schedule(() => delay(50, 2));
+
+      expect(scheduler.isPaused).toBe(true);
+      expect(second.status).toBe('queued');
+      await jest.advanceTimersByTimeAsync(50);
+      expect(first.status).toBe('settled');
+      expect(second.status).toBe('queued');
+
+      scheduler.resume();
+      expect(second.status).toBe('running');
+      await jest.advanceTimersByTimeAsync(50);
+      await expect(second.promise).resolves.toBe(2);
+    });
+  });
+
+  describe('onEmpty and onIdle', () => {
+    test('should resolve when the queue drains and when all tasks finish', async () => {
+      const scheduler = new PriorityScheduler();
+      const events: string[] = [];
+      scheduler.schedule(() => delay(100, 1));
+      scheduler.schedule(() => delay(100, 2));
+
+      scheduler.onEmpty().then(() => events.push('empty'));
+      scheduler.onIdle().then(() => events.push('idle'));
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(events).toEqual(['empty']);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(events).toEqual(['empty', 'idle']);
+    });
+
+    test('should resolve onEmpty when queued tasks are cancelled', async () => {
+      const scheduler = new PriorityScheduler({ autoStart: false });
+      const task = scheduler.schedule(() => 1);
+      task.promise.catch(() => undefined);
+
+      const empty = scheduler.onEmpty();
+      scheduler.cancel(task);
+      await expect(empty).resolves.toBeUndefined();
+    });
+  });
+});
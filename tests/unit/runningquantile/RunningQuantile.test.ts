@@ -0,0 +1,124 @@
+import { RunningMedian, RunningQuantile } from '../../../src/index';
+
+// numpy-style linear interpolation between the closest ranks.
+const reference = (values: number[], q: number): number | undefined => {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = q * (sorted.length - 1);
+  const below = Math.floor(rank);
+  const fraction = rank - below;
+  return fraction === 0 ? sorted[below] : sorted[below] + fraction * (sorted[below + 1] - sorted[below]);
+};
+
+describe('RunningMedian', () => {
+  let median: RunningMedian;
+
+  beforeEach(() => {
+    median = new RunningMedian();
+  });
+
+  test('should start empty', () => {
+    expect(median.size).toBe(0);
+    expect(median.isEmpty).toBe(true);
+    expect(median.median).toBeUndefined();
+    expect(median.q).toBe(0.5);
+    expect(median.maxSize).toBeUndefined();
+  });
+
+  test('should track the median of odd and even counts', () => {
+    median.add(5);
+    expect(median.median).toBe(5);
+    median.add(1);
+    expect(median.median).toBe(3);
+    median.add(3);
+    expect(median.median).toBe(3);
+    median.add(10);
+    expect(median.median).toBe(4);
+    expect(median.toArray()).toEqual([1, 3, 5, 10]);
+  });
+
+  test('should remove values lazily', () => {
+    [7, 1, 3, 3, 9, 5].forEach(value => median.add(value));
+    expect(median.remove(3)).toBe(true);
+    expect(median.median).toBe(5);
+    expect(median.remove(4)).toBe(false);
+    expect(median.remove(9)).toBe(true);
+    expect(median.remove(1)).toBe(true);
+    expect(median.toArray()).toEqual([3, 5, 7]);
+    expect(median.median).toBe(5);
+  });
+
+  test('should slide over a window backed by a Deque', () => {
+    const windowed = new RunningMedian({ maxSize: 3 });
+    const medians = [4, 8, 1, 9, 2, 2, 7].map(value => windowed.add(value).median);
+    expect(medians).toEqual([4, 6, 4, 8, 2, 2, 2]);
+    expect(windowed.size).toBe(3);
+    expect(windowed.maxSize).toBe(3);
+
+    expect(windowed.remove(7)).toBe(true);
+    windowed.add(6);
+    expect(windowed.toArray()).toEqual([2, 2, 6]);
+  });
+
+  test('clear should reset the tracker', () => {
+    [1, 2, 3].forEach(value => median.add(value));
+    median.remove(2);
+    median.clear();
+    expect(median.isEmpty).toBe(true);
+    median.add(8);
+    expect(median.median).toBe(8);
+  });
+});
+
+describe('RunningQuantile', () => {
+  test('should reject invalid arguments', () => {
+    expect(() => new RunningQuantile(1.5)).toThrow(RangeError);
+    expect(() => new RunningQuantile(NaN)).toThrow(RangeError);
+    expect(() => new RunningQuantile(0.9, { maxSize: 0 })).toThrow(RangeError);
+    expect(() => new RunningQuantile(0.9).add(NaN)).toThrow(RangeError);
+  });
+
+  test('should compute the extremes', () => {
+    const min = new RunningQuantile(0);
+    const max = new RunningQuantile(1);
+    [4, 9, 1, 7].forEach(value => {
+      min.add(value);
+      max.add(value);
+    });
+    expect(min.quantile).toBe(1);
+    expect(max.quantile).toBe(9);
+  });
+
+  test.each([0.1, 0.5, 0.9, 0.99])('should match the sorted reference for q = %p', q => {
+    let seed = 17;
+    const random = (): number => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const tracker = new RunningQuantile(q);
+    const values: number[] = [];
+    for (let step = 0; step < 1500; step++) {
+      if (random() < 0.7 || values.length === 0) {
+        const value = Math.floor(random() * 100);
+        tracker.add(value);
+        values.push(value);
+      } else {
+        const [value] = values.splice(Math.floor(random() * values.length), 1);
+        expect(tracker.remove(value)).toBe(true);
+      }
+      expect(tracker.size).toBe(values.length);
+      expect(tracker.quantile).toBeCloseTo(reference(values, q) as number, 9);
+    }
+  });
+
+  test('should track p90 over a window', () => {
+    const p90 = new RunningQuantile(0.9, { maxSize: 50 });
+    const stream = Array.from({ length: 500 }, (_, i) => (i * 37) % 101);
+    stream.forEach((value, i) => {
+      p90.add(value);
+      const window = stream.slice(Math.max(0, i - 49), i + 1);
+      expect(p90.quantile).toBeCloseTo(reference(window, 0.9) as number, 9);
+    });
+  });
+});
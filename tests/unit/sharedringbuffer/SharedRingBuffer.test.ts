@@ -0,0 +1,206 @@
+import { resolve } from 'path';
+import { Worker } from 'worker_threads';
+import { SharedRingBuffer } from '../../../src/index';
+import { RecordCodec } from '../../../src/interfaces';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const pointCodec: RecordCodec<Point> = {
+  size: 2,
+  encode: (item, target, offset) => {
+    target[offset] = item.x;
+    target[offset + 1] = item.y;
+  },
+  decode: (source, offset) => ({ x: source[offset], y: source[offset + 1] }),
+};
+
+describe('SharedRingBuffer', () => {
+  let ring: SharedRingBuffer;
+
+  beforeEach(() => {
+    ring = new SharedRingBuffer({ capacity: 4 });
+  });
+
+  describe('Initialization', () => {
+    test('should create an empty buffer backed by shared memory', () => {
+      expect(ring.buffer).toBeInstanceOf(SharedArrayBuffer);
+      expect(ring.capacity).toBe(4);
+      expect(ring.size).toBe(0);
+      expect(ring.isEmpty).toBe(true);
+      expect(ring.isClosed).toBe(false);
+    });
+
+    test('should round capacity up to a power of two', () => {
+      expect(new SharedRingBuffer({ capacity: 5 }).capacity).toBe(8);
+      expect(new SharedRingBuffer().capacity).toBe(1024);
+    });
+
+    test('should reject invalid capacity and record size', () => {
+      expect(() => new SharedRingBuffer({ capacity: 0 })).toThrow(RangeError);
+      expect(() => new SharedRingBuffer({ capacity: 1.5 })).toThrow(RangeError);
+      expect(() => new SharedRingBuffer({ codec: { ...pointCodec, size: 0 } })).toThrow(RangeError);
+    });
+  });
+
+  describe('Non-blocking operations', () => {
+    test('should pop items in FIFO order', () => {
+      expect(ring.tryPush(1)).toBe(true);
+      expect(ring.tryPush(2)).toBe(true);
+      expect(ring.tryPush(3.5)).toBe(true);
+      expect(ring.toArray()).toEqual([1, 2, 3.5]);
+      expect(ring.tryPop()).toBe(1);
+      expect(ring.tryPop()).toBe(2);
+      expect(ring.tryPop()).toBe(3.5);
+      expect(ring.tryPop()).toBeUndefined();
+    });
+
+    test('should reject pushes when full', () => {
+      for (let i = 0; i < 4; i++) ring.tryPush(i);
+      expect(ring.isFull).toBe(true);
+      expect(ring.tryPush(4)).toBe(false);
+      expect(ring.size).toBe(4);
+    });
+
+    test('should wrap around the end of the buffer', () => {
+      for (let round = 0; round < 10; round++) {
+        ring.tryPush(round);
+        ring.tryPush(round + 0.5);
+        ring.tryPush(round + 0.25);
+        expect(ring.tryPop()).toBe(round);
+        expect(ring.tryPop()).toBe(round + 0.5);
+        expect(ring.tryPop()).toBe(round + 0.25);
+      }
+      expect(ring.isEmpty).toBe(true);
+    });
+
+    test('clear should discard all items', () => {
+      ring.tryPush(1);
+      ring.tryPush(2);
+      ring.clear();
+      expect(ring.isEmpty).toBe(true);
+      expect(ring.tryPush(3)).toBe(true);
+      expect(ring.toArray()).toEqual([3]);
+    });
+  });
+
+  describe('Record codec', () => {
+    test('should encode and decode fixed-size records', () => {
+      const points = new SharedRingBuffer<Point>({ capacity: 2, codec: pointCodec });
+      points.tryPush({ x: 1, y: 2 });
+      points.tryPush({ x: 3, y: 4 });
+      expect(points.toArray()).toEqual([
+        { x: 1, y: 2 },
+        { x: 3, y: 4 },
+      ]);
+      expect(points.tryPop()).toEqual({ x: 1, y: 2 });
+      points.tryPush({ x: 5, y: 6 });
+      expect(points.tryPop()).toEqual({ x: 3, y: 4 });
+      expect(points.tryPop()).toEqual({ x: 5, y: 6 });
+    });
+  });
+
+  describe('attach', () => {
+    test('should share items with the original instance', () => {
+      const consumer = SharedRingBuffer.attach(ring.buffer);
+      expect(consumer.capacity).toBe(4);
+
+      ring.tryPush(7);
+      expect(consumer.size).toBe(1);
+      expect(consumer.tryPop()).toBe(7);
+      expect(ring.isEmpty).toBe(true);
+    });
+
+    test('should share the closed state', () => {
+      const consumer = SharedRingBuffer.attach(ring.buffer);
+      consumer.close();
+      expect(ring.isClosed).toBe(true);
+    });
+
+    test('should reject a codec with a different record size', () => {
+      expect(() => SharedRingBuffer.attach(ring.buffer, pointCodec)).toThrow(RangeError);
+      const points = new SharedRingBuffer<Point>({ codec: pointCodec });
+      expect(SharedRingBuffer.attach(points.buffer, pointCodec).capacity).toBe(points.capacity);
+    });
+  });
+
+  describe('Blocking operations', () => {
+    test('pop should return available items immediately', () => {
+      ring.tryPush(1);
+      expect(ring.pop()).toBe(1);
+    });
+
+    test('pop should return undefined after the timeout', () => {
+      const start = Date.now();
+      expect(ring.pop(20)).toBeUndefined();
+      expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+    });
+
+    test('push should return false after the timeout when full', () => {
+      for (let i = 0; i < 4; i++) ring.tryPush(i);
+      expect(ring.push(4, 10)).toBe(false);
+      expect(ring.toArray()).toEqual([0, 1, 2, 3]);
+    });
+
+    test('popAsync should resolve once an item is pushed', async () => {
+      const pending = ring.popAsync(1000);
+      await Promise.resolve();
+      ring.tryPush(42);
+      await expect(pending).resolves.toBe(42);
+    });
+
+    test('popAsync should resolve undefined after the timeout', async () => {
+      await expect(ring.popAsync(10)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Worker threads', () => {
+    // Workers do not go through ts-jest, so this one compiles the TypeScript sources it requires on the fly.
+    const producer = `
+      const { readFileSync } = require('fs');
+      const ts = require('typescript');
+      const { workerData } = require('worker_threads');
+      require.extensions['.ts'] = (module, filename) => {
+        const options = { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 };
+        module._compile(ts.transpileModule(readFileSync(filename, 'utf8'), { compilerOptions: options }).outputText, filename);
+      };
+      const { SharedRingBuffer } = require(workerData.source);
+      SharedRingBuffer.attach(workerData.buffer).push(42);
+    `;
+
+    test('pop should block until a push from another thread wakes it', async () => {
+      const worker = new Worker(producer, {
+        eval: true,
+        workerData: { buffer: ring.buffer, source: resolve(__dirname, '../../../src/collections/sharedringbuffer.class.ts') },
+      });
+      try {
+        expect(ring.isEmpty).toBe(true);
+        expect(ring.pop(5000)).toBe(42);
+        expect(ring.isEmpty).toBe(true);
+      } finally {
+        await worker.terminate();
+      }
+    });
+  });
+
+  describe('close', () => {
+    test('should reject new items but allow draining existing ones', () => {
+      ring.tryPush(1);
+      ring.close();
+
+      expect(() => ring.tryPush(2)).toThrow('closed');
+      expect(ring.push(2)).toBe(false);
+      expect(ring.pop()).toBe(1);
+      expect(ring.pop()).toBeUndefined();
+    });
+
+    test('should wake a pending popAsync', async () => {
+      const pending = ring.popAsync();
+      await Promise.resolve();
+      ring.close();
+      await expect(pending).resolves.toBeUndefined();
+    });
+  });
+});
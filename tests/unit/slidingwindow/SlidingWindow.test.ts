@@ -0,0 +1,139 @@
+import { SlidingWindow } from '../../../src/index';
+
+describe('SlidingWindow', () => {
+  describe('Initialization', () => {
+    test('should create empty window', () => {
+      const window = new SlidingWindow<number>();
+      expect(window.size).toBe(0);
+      expect(window.isEmpty).toBe(true);
+      expect(window.min).toBeUndefined();
+      expect(window.max).toBeUndefined();
+      expect(window.sum).toBe(0);
+      expect(window.mean).toBeUndefined();
+    });
+
+    test('should reject invalid bounds', () => {
+      expect(() => new SlidingWindow({ maxSize: 0 })).toThrow(RangeError);
+      expect(() => new SlidingWindow({ maxSize: 1.5 })).toThrow(RangeError);
+      expect(() => new SlidingWindow({ maxAge: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe('Count-based window', () => {
+    test('should keep only the last maxSize items', () => {
+      const window = new SlidingWindow<number>({ maxSize: 3 });
+      window.push(4).push(2).push(12).push(3);
+      expect(window.toArray()).toEqual([2, 12, 3]);
+      expect(window.min).toBe(2);
+      expect(window.max).toBe(12);
+      expect(window.sum).toBe(17);
+      expect(window.mean).toBeCloseTo(17 / 3);
+    });
+
+    test('should match a brute-force sliding minimum and maximum', () => {
+      const values = [5, 1, 4, 4, 2, 8, 8, 3, 1, 1, 9, 0, 7, 6, 6, 2];
+      const k = 4;
+      const window = new SlidingWindow<number>({ maxSize: k });
+
+      values.forEach((value, i) => {
+        window.push(value);
+        const expected = values.slice(Math.max(0, i - k + 1), i + 1);
+        expect(window.min).toBe(Math.min(...expected));
+        expect(window.max).toBe(Math.max(...expected));
+        expect(window.sum).toBe(expected.reduce((a, b) => a + b, 0));
+      });
+    });
+  });
+
+  describe('Manual eviction', () => {
+    test('should evict the oldest items', () => {
+      const window = new SlidingWindow<number>();
+      window.push(1).push(5).push(3).push(5);
+
+      window.evict();
+      expect(window.toArray()).toEqual([5, 3, 5]);
+      expect(window.min).toBe(3);
+      expect(window.max).toBe(5);
+
+      window.evict(2);
+      expect(window.toArray()).toEqual([5]);
+      expect(window.min).toBe(5);
+      expect(window.max).toBe(5);
+
+      window.evict(10);
+      expect(window.isEmpty).toBe(true);
+      expect(window.max).toBeUndefined();
+    });
+  });
+
+  describe('Time-based window', () => {
+    test('should evict items older than maxAge', () => {
+      let now = 0;
+      const window = new SlidingWindow<number>({ maxAge: 1000, clock: () => now });
+
+      window.push(10);
+      now = 400;
+      window.push(1);
+      now = 800;
+      window.push(5);
+      expect(window.min).toBe(1);
+      expect(window.max).toBe(10);
+
+      now = 1000;
+      expect(window.toArray()).toEqual([1, 5]);
+      expect(window.max).toBe(5);
+
+      now = 1400;
+      expect(window.min).toBe(5);
+      expect(window.size).toBe(1);
+    });
+
+    test('should accept explicit timestamps', () => {
+      const window = new SlidingWindow<number>({ maxAge: 10, clock: () => 0 });
+      window.push(3, 0).push(1, 5).push(2, 12);
+      expect(window.toArray()).toEqual([1, 2]);
+
+      window.evictExpired(20);
+      expect(window.toArray()).toEqual([2]);
+    });
+  });
+
+  describe('Custom comparator', () => {
+    test('should track min and max with a comparator', () => {
+      interface Reading {
+        sensor: string;
+        value: number;
+      }
+      const window = new SlidingWindow<Reading>({
+        maxSize: 2,
+        comparator: (a, b) => a.value - b.value,
+      });
+      window.push({ sensor: 'a', value: 3 });
+      window.push({ sensor: 'b', value: 7 });
+      window.push({ sensor: 'c', value: 5 });
+
+      expect(window.min?.sensor).toBe('c');
+      expect(window.max?.sensor).toBe('b');
+      expect(window.sum).toBeNaN();
+    });
+
+    test('should work with strings through the default comparator', () => {
+      const window = new SlidingWindow<string>({ maxSize: 2 });
+      window.push('pear').push('apple').push('zucchini');
+      expect(window.min).toBe('apple');
+      expect(window.max).toBe('zucchini');
+    });
+  });
+
+  describe('clear', () => {
+    test('should remove all items', () => {
+      const window = new SlidingWindow<number>();
+      window.push(1).push(2);
+      window.clear();
+      expect(window.isEmpty).toBe(true);
+      expect(window.sum).toBe(0);
+      expect(window.min).toBeUndefined();
+      expect([...window]).toEqual([]);
+    });
+  });
+});